@@ -88,6 +88,52 @@ export default [
       })
     ]
   },
+  // Server entry point (request header detection + inline bootstrap)
+  {
+    input: 'src/server.ts',
+    output: [
+      {
+        file: 'dist/server.js',
+        format: 'cjs',
+        sourcemap: true
+      },
+      {
+        file: 'dist/server.esm.js',
+        format: 'es',
+        sourcemap: true
+      }
+    ],
+    plugins: [
+      typescript({
+        typescript: typescriptLib,
+        tsconfig: './tsconfig.json',
+        check: false
+      })
+    ]
+  },
+  // Web component entry point (registers <os-zoom-control>)
+  {
+    input: 'src/element.ts',
+    output: [
+      {
+        file: 'dist/element.js',
+        format: 'cjs',
+        sourcemap: true
+      },
+      {
+        file: 'dist/element.esm.js',
+        format: 'es',
+        sourcemap: true
+      }
+    ],
+    plugins: [
+      typescript({
+        typescript: typescriptLib,
+        tsconfig: './tsconfig.json',
+        check: false
+      })
+    ]
+  },
   // Vue adapter
   {
     input: 'src/adapters/VueAdapter.ts',
@@ -135,6 +181,53 @@ export default [
         check: false // Skip type checking during build (use 'npm run lint' for type checking)
       })
     ]
+  },
+  // Svelte adapter
+  {
+    input: 'src/adapters/SvelteAdapter.ts',
+    external: ['svelte/store'],
+    output: [
+      {
+        file: 'dist/adapters/SvelteAdapter.js',
+        format: 'cjs',
+        sourcemap: true
+      },
+      {
+        file: 'dist/adapters/SvelteAdapter.esm.js',
+        format: 'es',
+        sourcemap: true
+      }
+    ],
+    plugins: [
+      typescript({
+        typescript: typescriptLib,
+        tsconfig: './tsconfig.json',
+        check: false // Skip type checking during build (use 'npm run lint' for type checking)
+      })
+    ]
+  },
+  // Solid adapter
+  {
+    input: 'src/adapters/SolidAdapter.ts',
+    external: ['solid-js'],
+    output: [
+      {
+        file: 'dist/adapters/SolidAdapter.js',
+        format: 'cjs',
+        sourcemap: true
+      },
+      {
+        file: 'dist/adapters/SolidAdapter.esm.js',
+        format: 'es',
+        sourcemap: true
+      }
+    ],
+    plugins: [
+      typescript({
+        typescript: typescriptLib,
+        tsconfig: './tsconfig.json',
+        check: false // Skip type checking during build (use 'npm run lint' for type checking)
+      })
+    ]
   }
 ];
-
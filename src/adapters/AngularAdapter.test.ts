@@ -0,0 +1,139 @@
+/**
+ * @jest-environment jsdom
+ */
+import { ZoomControllerConfig } from '../types';
+
+/**
+ * @angular/core only ships ESM bundles whose decorators need the JIT compiler, which this CommonJS
+ * jest setup cannot load. The suite stands in a minimal core instead: decorators are no-ops, signals
+ * are plain cells and inject() reads from `injected`. That covers the adapter's own logic
+ * (config token, browser/server split, state$ and signals, the directive), not Angular's DI.
+ */
+const injected = new Map<unknown, unknown>();
+let injectionContext = false;
+
+jest.mock('@angular/core', () => {
+  const decorator = () => () => undefined;
+  class InjectionToken {
+    constructor(readonly description: string) {}
+  }
+  const signal = <T>(initial: T) => {
+    let value = initial;
+    const read = Object.assign(() => value, {
+      set: (next: T) => {
+        value = next;
+      },
+      asReadonly: () => () => value
+    });
+    return read;
+  };
+  return {
+    Injectable: decorator,
+    Directive: decorator,
+    NgModule: decorator,
+    InjectionToken,
+    PLATFORM_ID: new InjectionToken('PLATFORM_ID'),
+    ElementRef: class ElementRef {},
+    signal,
+    computed: <T>(compute: () => T) => compute,
+    makeEnvironmentProviders: (providers: unknown[]) => providers,
+    inject: (token: unknown) => {
+      if (!injectionContext) {
+        throw new Error('inject() must be called from an injection context');
+      }
+      return injected.get(token) ?? null;
+    }
+  };
+});
+
+import { PLATFORM_ID, ElementRef } from '@angular/core';
+import { OSZoomService, OSZoomDirective, OSZoomModule, OS_ZOOM_CONFIG, provideOSZoom } from './AngularAdapter';
+
+const config: ZoomControllerConfig = {
+  initialDetection: { os: 'windows', isMobile: false },
+  windows: { enabled: true, zoomLevel: 0.8 },
+  strategy: 'css-variables'
+};
+
+// What Angular's injector would do: construct with inject() available
+function create<T>(type: new () => T, providers: Array<[unknown, unknown]> = []): T {
+  injected.clear();
+  providers.forEach(([token, value]) => injected.set(token, value));
+  injectionContext = true;
+  try {
+    return new type();
+  } finally {
+    injectionContext = false;
+  }
+}
+
+const scaleFactor = (element: HTMLElement = document.documentElement) => element.style.getPropertyValue('--scale-factor');
+
+describe('OSZoomService', () => {
+  it('reads its config from OS_ZOOM_CONFIG and applies it in the browser', () => {
+    const service = create(OSZoomService, [[OS_ZOOM_CONFIG, config], [PLATFORM_ID, 'browser']]);
+    const states: number[] = [];
+    service.state$.subscribe((state) => states.push(state.currentZoom));
+
+    expect(service.osInfo.os).toBe('windows');
+    expect(service.state()).toMatchObject({ currentZoom: 0.8, isActive: true });
+    expect(scaleFactor()).toBe('0.8');
+
+    service.zoomIn();
+    expect(service.zoom()).toBe(0.9);
+    expect(states).toEqual([0.8, 0.9]);
+
+    service.ngOnDestroy();
+    expect(scaleFactor()).toBe('');
+  });
+
+  it('only exposes the initial state on the server', () => {
+    const service = create(OSZoomService, [[OS_ZOOM_CONFIG, config], [PLATFORM_ID, 'server']]);
+    expect(service.state()).toMatchObject({ currentZoom: 1, isActive: false });
+    expect(service.osInfo.os).toBe('windows');
+    expect(scaleFactor()).toBe('');
+    service.ngOnDestroy();
+  });
+
+  it('falls back to checking for window outside an injection context', () => {
+    const service = new OSZoomService();
+    expect(service.getConfig().windows).toEqual({ enabled: false, zoomLevel: 1 });
+    service.ngOnDestroy();
+  });
+});
+
+describe('OSZoomDirective', () => {
+  it('zooms its element with the service strategy and clears on destroy', () => {
+    const service = create(OSZoomService, [[OS_ZOOM_CONFIG, config], [PLATFORM_ID, 'browser']]);
+    const element = document.body.appendChild(document.createElement('aside'));
+    const directive = create(OSZoomDirective, [
+      [OSZoomService, service],
+      [PLATFORM_ID, 'browser'],
+      [ElementRef, { nativeElement: element }]
+    ]);
+
+    // Attribute usage passes a string; the level composes with the page's 0.8
+    directive.osZoom = '0.9';
+    directive.ngOnChanges();
+    expect(scaleFactor(element)).toBe('0.72');
+
+    directive.osZoom = 0;
+    directive.ngOnChanges();
+    expect(scaleFactor(element)).toBe('0.72');
+
+    directive.ngOnDestroy();
+    expect(scaleFactor(element)).toBe('');
+    service.ngOnDestroy();
+    element.remove();
+  });
+});
+
+describe('providers', () => {
+  it('provide the config for standalone and NgModule apps', () => {
+    expect(provideOSZoom(config)).toEqual([{ provide: OS_ZOOM_CONFIG, useValue: config }]);
+    expect(OSZoomModule.forRoot(config)).toEqual({
+      ngModule: OSZoomModule,
+      providers: [{ provide: OS_ZOOM_CONFIG, useValue: config }]
+    });
+  });
+});
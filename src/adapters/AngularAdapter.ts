@@ -1,13 +1,67 @@
-import { Injectable, OnDestroy } from '@angular/core';
+import {
+  Injectable,
+  OnDestroy,
+  OnChanges,
+  InjectionToken,
+  EnvironmentProviders,
+  ModuleWithProviders,
+  NgModule,
+  Directive,
+  ElementRef,
+  PLATFORM_ID,
+  Signal,
+  computed,
+  inject,
+  makeEnvironmentProviders,
+  signal
+} from '@angular/core';
 import { BehaviorSubject, Observable } from 'rxjs';
-import { OSDetector } from '../core/OSDetector';
 import { ZoomManager } from '../core/ZoomManager';
 import { ConfigManager } from '../core/ConfigManager';
-import { ZoomControllerConfig, ZoomState, OS, OSDetectionResult } from '../types';
+import { ElementZoom } from '../core/ElementZoom';
+import { ZoomControllerConfig, ZoomState, OS, OSDetectionResult, ZoomStrategyName } from '../types';
 import { CSSVariables } from '../utils/cssVariables';
+import { getInitialDetection, followDetection } from '../utils/hydration';
+
+/**
+ * Config for the app's OSZoomService - provide it with provideOSZoom() or OSZoomModule.forRoot()
+ */
+export const OS_ZOOM_CONFIG = new InjectionToken<ZoomControllerConfig>('OS_ZOOM_CONFIG');
+
+/**
+ * Provide the OSZoom config in a standalone app: bootstrapApplication(App, { providers: [provideOSZoom(config)] })
+ * @param {ZoomControllerConfig} config - Configuration object
+ * @returns {EnvironmentProviders}
+ */
+export function provideOSZoom(config: ZoomControllerConfig): EnvironmentProviders {
+  return makeEnvironmentProviders([{ provide: OS_ZOOM_CONFIG, useValue: config }]);
+}
+
+/**
+ * Run an injection outside an injection context without throwing
+ * @private
+ */
+function tryInject<T>(token: InjectionToken<T>): T | undefined {
+  try {
+    return inject(token, { optional: true }) ?? undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Check for the browser platform - same test as isPlatformBrowser() from @angular/common,
+ * which is not a dependency; without DI, fall back to checking for window
+ * @private
+ */
+function isBrowser(): boolean {
+  const platformId = tryInject(PLATFORM_ID);
+  return platformId !== undefined ? platformId === 'browser' : typeof window !== 'undefined';
+}
 
 /**
  * OSZoomService - Angular Service for OS Zoom Controller
+ * Reads its config from OS_ZOOM_CONFIG; on the server it only exposes the initial state
  */
 @Injectable({
   providedIn: 'root'
@@ -16,17 +70,42 @@ export class OSZoomService implements OnDestroy {
   private stateSubject = new BehaviorSubject<ZoomState>({
     currentZoom: 1,
     appliedOS: 'unknown',
-    isActive: false
+    isActive: false,
+    nativeZoom: 1,
+    pinchZoom: 1
   });
+  private stateSignal = signal<ZoomState>(this.stateSubject.value);
 
   public state$: Observable<ZoomState> = this.stateSubject.asObservable();
-  public osInfo: OSDetectionResult = OSDetector.detect();
+  public readonly state: Signal<ZoomState> = this.stateSignal.asReadonly();
+  public readonly zoom: Signal<number> = computed(() => this.state().currentZoom);
+  public osInfo: OSDetectionResult;
+  private config: ZoomControllerConfig;
   private zoomManager: ZoomManager;
   private cssVariables: CSSVariables;
+  private unsubscribe: () => void = () => {};
+  private browser: boolean;
+  private stopFollowing: () => void = () => {};
+
+  // No constructor parameters: DI cannot supply a config object - it comes from OS_ZOOM_CONFIG
+  constructor() {
+    const userConfig = tryInject(OS_ZOOM_CONFIG);
+    this.browser = isBrowser();
+    this.config = ConfigManager.mergeConfig(userConfig);
+    this.cssVariables = new CSSVariables(this.config.target, this.config.tokens);
+    this.zoomManager = new ZoomManager(this.config);
+
+    if (!this.browser) {
+      // Server render: the server result (if any) keeps the markup in sync with the client
+      this.osInfo = this.config.initialDetection || { os: 'unknown', isMobile: false, browser: undefined };
+      return;
+    }
 
-  constructor(config?: ZoomControllerConfig) {
-    this.cssVariables = new CSSVariables();
-    this.zoomManager = new ZoomManager(ConfigManager.mergeConfig(config));
+    this.osInfo = getInitialDetection(this.config);
+    this.unsubscribe = this.zoomManager.subscribe((event) => {
+      this.stateSubject.next(event.next);
+      this.stateSignal.set(event.next);
+    });
     this.initialize();
   }
 
@@ -36,8 +115,20 @@ export class OSZoomService implements OnDestroy {
    */
   private initialize(): void {
     this.cssVariables.injectCSS();
-    this.zoomManager.apply(this.osInfo.os as OS);
-    this.stateSubject.next(this.zoomManager.getState());
+    this.zoomManager.apply(this.osInfo);
+    this.zoomManager.attachKeyboard(this.osInfo.os as OS);
+
+    this.stopFollowing = followDetection(this.zoomManager, this.config, (detection) => {
+      this.osInfo = detection;
+    });
+  }
+
+  /**
+   * Get the config the service runs with (merged with defaults)
+   * @returns {ZoomControllerConfig}
+   */
+  getConfig(): ZoomControllerConfig {
+    return this.config;
   }
 
   /**
@@ -47,7 +138,6 @@ export class OSZoomService implements OnDestroy {
    */
   setZoom(os: OS, zoomLevel: number): void {
     this.zoomManager.setZoom(os, zoomLevel);
-    this.stateSubject.next(this.zoomManager.getState());
   }
 
   /**
@@ -64,7 +154,30 @@ export class OSZoomService implements OnDestroy {
    */
   reset(): void {
     this.zoomManager.reset();
-    this.stateSubject.next(this.zoomManager.getState());
+  }
+
+  /**
+   * Step up to the next zoom level on the ladder
+   * @param {OS} [os] - Operating system (optional)
+   */
+  zoomIn(os?: OS): void {
+    this.zoomManager.zoomIn(os || this.osInfo.os);
+  }
+
+  /**
+   * Step down to the previous zoom level on the ladder
+   * @param {OS} [os] - Operating system (optional)
+   */
+  zoomOut(os?: OS): void {
+    this.zoomManager.zoomOut(os || this.osInfo.os);
+  }
+
+  /**
+   * Go back to the configured zoom, dropping the user's chosen level
+   * @param {OS} [os] - Operating system (optional)
+   */
+  resetToDefault(os?: OS): void {
+    this.zoomManager.resetToDefault(os || this.osInfo.os);
   }
 
   /**
@@ -79,7 +192,63 @@ export class OSZoomService implements OnDestroy {
    * Angular lifecycle hook - cleanup
    */
   ngOnDestroy(): void {
-    this.cssVariables.removeCSS();
+    this.stopFollowing();
+    this.unsubscribe();
+    if (this.browser) {
+      this.zoomManager.destroy();
+      this.cssVariables.removeCSS();
+    }
+  }
+}
+
+/**
+ * OSZoomDirective - Zooms a single element: <aside [osZoom]="0.9">
+ * Uses the service config's strategy unless `osZoomStrategy` is set; no-op on the server
+ */
+@Directive({
+  selector: '[osZoom]',
+  standalone: true,
+  inputs: ['osZoom', 'osZoomStrategy']
+})
+export class OSZoomDirective implements OnChanges, OnDestroy {
+  osZoom: number | string = 1;
+  osZoomStrategy?: ZoomStrategyName;
+
+  private service = inject(OSZoomService);
+  private elementZoom: ElementZoom | null = isBrowser()
+    ? new ElementZoom(inject(ElementRef<HTMLElement>).nativeElement, this.service.getConfig().tokens)
+    : null;
+
+  ngOnChanges(): void {
+    // Attribute usage (osZoom="0.9") passes a string
+    const zoomLevel = typeof this.osZoom === 'string' ? parseFloat(this.osZoom) : this.osZoom;
+    if (isFinite(zoomLevel) && zoomLevel > 0) {
+      this.elementZoom?.apply(zoomLevel, this.osZoomStrategy || this.service.getConfig().strategy);
+    }
+  }
+
+  ngOnDestroy(): void {
+    this.elementZoom?.clear();
   }
 }
 
+/**
+ * OSZoomModule - For NgModule apps: imports: [OSZoomModule.forRoot(config)]
+ */
+@NgModule({
+  imports: [OSZoomDirective],
+  exports: [OSZoomDirective]
+})
+export class OSZoomModule {
+  /**
+   * Provide the config and make [osZoom] available
+   * @param {ZoomControllerConfig} config - Configuration object
+   * @returns {ModuleWithProviders}
+   */
+  static forRoot(config: ZoomControllerConfig): ModuleWithProviders<OSZoomModule> {
+    return {
+      ngModule: OSZoomModule,
+      providers: [{ provide: OS_ZOOM_CONFIG, useValue: config }]
+    };
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * @jest-environment jsdom
+ */
+import { act, createElement, FunctionComponent } from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import { TextEncoder } from 'util';
+import { useOSZoom, OSZoomProvider } from './ReactAdapter';
+import { ZoomControllerConfig } from '../types';
+
+(globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+
+const config: ZoomControllerConfig = {
+  initialDetection: { os: 'windows', isMobile: false },
+  windows: { enabled: true, zoomLevel: 0.8 },
+  strategy: 'css-variables'
+};
+
+type Zoom = ReturnType<typeof useOSZoom>;
+
+interface ProbeProps {
+  results: Zoom[];
+  config?: ZoomControllerConfig;
+}
+
+// Renders nothing and hands the hook result to the test
+const Probe: FunctionComponent<ProbeProps> = ({ results, config: hookConfig }) => {
+  results.push(useOSZoom(hookConfig));
+  return null;
+};
+
+const probe = (results: Zoom[], hookConfig?: ZoomControllerConfig) =>
+  createElement(Probe, { results, config: hookConfig });
+
+const latest = (results: Zoom[]) => results[results.length - 1];
+const scaleFactor = () => document.documentElement.style.getPropertyValue('--scale-factor');
+
+describe('useOSZoom', () => {
+  let container: HTMLElement;
+  let root: Root;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    root = createRoot(container);
+  });
+
+  afterEach(() => {
+    act(() => root.unmount());
+    container.remove();
+  });
+
+  it('applies the zoom after mounting and reflects changes', () => {
+    const results: Zoom[] = [];
+    act(() => root.render(probe(results, config)));
+
+    expect(results[0].state.isActive).toBe(false);
+    expect(latest(results).state).toMatchObject({ currentZoom: 0.8, isActive: true, appliedOS: 'windows' });
+    expect(latest(results).osInfo.os).toBe('windows');
+    expect(scaleFactor()).toBe('0.8');
+
+    act(() => latest(results).zoomIn());
+    expect(latest(results).state.currentZoom).toBe(0.9);
+    expect(latest(results).getZoom()).toBe(0.9);
+
+    act(() => latest(results).resetToDefault());
+    expect(latest(results).state.currentZoom).toBe(0.8);
+  });
+
+  it('keeps the manager for an equal inline config', () => {
+    const results: Zoom[] = [];
+    act(() => root.render(probe(results, config)));
+    act(() => latest(results).setZoom('windows', 1.1));
+
+    // A re-render with an equal config object keeps the user's level
+    act(() => root.render(probe(results, { ...config })));
+    expect(latest(results).state.currentZoom).toBe(1.1);
+  });
+
+  it('removes its zoom and stylesheet on unmount', () => {
+    act(() => root.render(probe([], config)));
+    expect(scaleFactor()).toBe('0.8');
+    expect(document.getElementById('oszoom-styles')).not.toBeNull();
+
+    act(() => root.unmount());
+    expect(scaleFactor()).toBe('');
+    expect(document.getElementById('oszoom-styles')).toBeNull();
+    root = createRoot(container);
+  });
+
+  it('shares one manager under OSZoomProvider', () => {
+    const first: Zoom[] = [];
+    const second: Zoom[] = [];
+    act(() => root.render(createElement(OSZoomProvider, { config },
+      probe(first),
+      probe(second)
+    )));
+
+    act(() => latest(first).setZoom('windows', 1.25));
+    expect(latest(second).state.currentZoom).toBe(1.25);
+  });
+
+  it('renders the initial snapshot on the server', () => {
+    // The browser build of react-dom/server needs TextEncoder, which jsdom lacks
+    Object.assign(globalThis, { TextEncoder });
+    const { renderToString } = require('react-dom/server');
+    const results: Zoom[] = [];
+    renderToString(probe(results, config));
+    expect(results[0].state).toMatchObject({ currentZoom: 1, isActive: false });
+    expect(results[0].osInfo.os).toBe('windows');
+    expect(results[0].getZoom()).toBe(1);
+  });
+});
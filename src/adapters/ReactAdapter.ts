@@ -1,88 +1,228 @@
-import { useEffect, useState, useRef } from 'react';
-import { OSDetector } from '../core/OSDetector';
+import * as React from 'react';
+import { createContext, createElement, useContext, useEffect, useMemo, useRef, useState, ReactNode } from 'react';
 import { ZoomManager } from '../core/ZoomManager';
 import { ConfigManager } from '../core/ConfigManager';
 import { ZoomControllerConfig, ZoomState, OS, OSDetectionResult } from '../types';
 import { CSSVariables } from '../utils/cssVariables';
+import { getInitialDetection, followDetection } from '../utils/hydration';
 
 /**
- * useOSZoom - React Hook for OS Zoom Controller
- * @param {ZoomControllerConfig} config - Configuration object
- * @returns {Object} - Hook API with state and methods
+ * What React components read: zoom state and detection result
  */
-export function useOSZoom(config?: ZoomControllerConfig) {
-  const [state, setState] = useState<ZoomState>({
-    currentZoom: 1,
-    appliedOS: 'unknown',
-    isActive: false
-  });
-
-  const [osInfo, setOsInfo] = useState<OSDetectionResult>({
-    os: 'unknown',
-    isMobile: false,
-    browser: undefined
-  });
-  const zoomManagerRef = useRef<ZoomManager | null>(null);
-  const cssVariablesRef = useRef<CSSVariables | null>(null);
+interface OSZoomSnapshot {
+  state: ZoomState;
+  osInfo: OSDetectionResult;
+}
+
+interface OSZoomContextValue {
+  store: ZoomStore | null; // null until the provider has mounted on the client
+  initialSnapshot: OSZoomSnapshot;
+}
+
+type Subscribe = (onChange: () => void) => () => void;
+
+const OSZoomContext = createContext<OSZoomContextValue | undefined>(undefined);
+
+// React 18+ ships useSyncExternalStore; older versions fall back to a subscription effect
+const useExternalStore: (subscribe: Subscribe, getSnapshot: () => OSZoomSnapshot, getServerSnapshot: () => OSZoomSnapshot) => OSZoomSnapshot =
+  'useSyncExternalStore' in React
+    ? React.useSyncExternalStore
+    : function useSubscription(subscribe: Subscribe, getSnapshot: () => OSZoomSnapshot): OSZoomSnapshot {
+      const [snapshot, setSnapshot] = useState(getSnapshot);
+      useEffect(() => {
+        setSnapshot(getSnapshot());
+        return subscribe(() => setSnapshot(getSnapshot()));
+      }, [subscribe, getSnapshot]);
+      return snapshot;
+    };
+
+const noopSubscribe: Subscribe = () => () => {};
+
+/**
+ * ZoomStore - Owns a ZoomManager and its stylesheet, and exposes an immutable snapshot
+ * for useSyncExternalStore (a new object only when something changed)
+ */
+class ZoomStore {
+  readonly manager: ZoomManager;
+  private cssVariables: CSSVariables;
+  private snapshot: OSZoomSnapshot;
+  private listeners: Set<() => void> = new Set();
+  private unsubscribe: () => void;
+  private stopFollowing: () => void;
+
+  constructor(userConfig: ZoomControllerConfig) {
+    const config = ConfigManager.mergeConfig(userConfig);
+    // Detect OS on client side only (or hydrate from the server result)
+    const osInfo = getInitialDetection(config);
+
+    this.manager = new ZoomManager(config);
+    this.cssVariables = new CSSVariables(config.target, config.tokens);
+    this.snapshot = { state: this.manager.getState(), osInfo };
+    this.cssVariables.injectCSS();
+
+    // Keep the snapshot in sync with every change the manager makes
+    this.unsubscribe = this.manager.subscribe((event) => this.update({ state: event.next }));
+
+    this.manager.apply(osInfo);
+    this.manager.attachKeyboard(osInfo.os);
+    this.stopFollowing = followDetection(this.manager, config, (detection) => this.update({ osInfo: detection }));
+
+    if (config.debug) {
+      console.log('[useOSZoom] Initialized:', osInfo);
+    }
+  }
+
+  subscribe: Subscribe = (onChange) => {
+    this.listeners.add(onChange);
+    return () => {
+      this.listeners.delete(onChange);
+    };
+  };
+
+  getSnapshot = (): OSZoomSnapshot => this.snapshot;
+
+  destroy(): void {
+    this.stopFollowing();
+    this.unsubscribe();
+    this.manager.destroy();
+    this.cssVariables.removeCSS();
+    this.listeners.clear();
+  }
+
+  private update(changes: Partial<OSZoomSnapshot>): void {
+    this.snapshot = { ...this.snapshot, ...changes };
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+/**
+ * Snapshot used before the store exists (server render and first client render)
+ * A server-side result keeps the first client render in sync with the server markup
+ * @private
+ */
+function createInitialSnapshot(config?: ZoomControllerConfig): OSZoomSnapshot {
+  return {
+    state: {
+      currentZoom: 1,
+      appliedOS: 'unknown',
+      isActive: false,
+      nativeZoom: 1,
+      pinchZoom: 1
+    },
+    osInfo: config?.initialDetection || {
+      os: 'unknown',
+      isMobile: false,
+      browser: undefined
+    }
+  };
+}
+
+/**
+ * Create a store for a config on the client, and replace it when the config changes by value
+ * @private
+ */
+function useZoomStore(config: ZoomControllerConfig | null): ZoomStore | null {
+  // Keep the previous object while the config is equal, so inline config literals do not re-create the store
+  const configRef = useRef(config);
+  if (!ConfigManager.isEqual(configRef.current, config)) {
+    configRef.current = config;
+  }
+  const stableConfig = configRef.current;
+  const [store, setStore] = useState<ZoomStore | null>(null);
 
   useEffect(() => {
     // Only run on client side (SSR-safe)
-    if (typeof window === 'undefined') {
+    if (!stableConfig || typeof window === 'undefined') {
+      setStore(null);
       return;
     }
 
-    // Detect OS on client side only
-    const detectedOSInfo = OSDetector.detect();
-    setOsInfo(detectedOSInfo);
+    const next = new ZoomStore(stableConfig);
+    setStore(next);
+    return () => next.destroy();
+  }, [stableConfig]);
 
-    // Initialize managers
-    zoomManagerRef.current = new ZoomManager(ConfigManager.mergeConfig(config));
-    cssVariablesRef.current = new CSSVariables();
+  return store;
+}
 
-    // Inject CSS
-    cssVariablesRef.current.injectCSS();
+export interface OSZoomProviderProps {
+  config?: ZoomControllerConfig;
+  children?: ReactNode;
+}
 
-    // Apply zoom based on detected OS
-    const detectedOS = detectedOSInfo.os;
-    zoomManagerRef.current.apply(detectedOS as OS);
-    setState(zoomManagerRef.current.getState());
+/**
+ * OSZoomProvider - Shares one zoom manager with every useOSZoom() below it
+ * The manager is re-created and zoom re-applied when `config` changes by value
+ * @param {OSZoomProviderProps} props - Config and children
+ */
+export function OSZoomProvider({ config, children }: OSZoomProviderProps) {
+  const store = useZoomStore(config || {});
+  const [initialSnapshot] = useState(() => createInitialSnapshot(config));
+  const value = useMemo(() => ({ store, initialSnapshot }), [store, initialSnapshot]);
 
-    if (config?.debug) {
-      console.log('[useOSZoom] Initialized:', detectedOSInfo);
-    }
+  return createElement(OSZoomContext.Provider, { value }, children);
+}
 
-    return () => {
-      if (cssVariablesRef.current) {
-        cssVariablesRef.current.removeCSS();
-      }
-    };
-  }, []);
+/**
+ * useOSZoom - React Hook for OS Zoom Controller
+ * Inside an OSZoomProvider it uses the provider's manager (and ignores `config`);
+ * otherwise it creates its own manager from `config`
+ * @param {ZoomControllerConfig} config - Configuration object (standalone use)
+ * @returns {Object} - Hook API with state and methods
+ */
+export function useOSZoom(config?: ZoomControllerConfig) {
+  const context = useContext(OSZoomContext);
+  const ownStore = useZoomStore(context ? null : config || {});
+  const [ownInitialSnapshot] = useState(() => createInitialSnapshot(config));
+
+  const store = context ? context.store : ownStore;
+  const initialSnapshot = context ? context.initialSnapshot : ownInitialSnapshot;
+  const getInitialSnapshot = useMemo(() => () => initialSnapshot, [initialSnapshot]);
+
+  const { state, osInfo } = useExternalStore(
+    store ? store.subscribe : noopSubscribe,
+    store ? store.getSnapshot : getInitialSnapshot,
+    getInitialSnapshot
+  );
+  const zoomManager = store?.manager;
 
   const setZoom = (os: OS, zoomLevel: number) => {
-    if (zoomManagerRef.current) {
-      zoomManagerRef.current.setZoom(os, zoomLevel);
-      setState(zoomManagerRef.current.getState());
+    if (zoomManager) {
+      zoomManager.setZoom(os, zoomLevel);
     }
   };
 
   const getZoom = (os?: OS) => {
-    if (!zoomManagerRef.current) return 1;
-    return zoomManagerRef.current.getZoom(os || osInfo.os);
+    if (!zoomManager) return 1;
+    return zoomManager.getZoom(os || osInfo.os);
   };
 
   const reset = () => {
-    if (zoomManagerRef.current) {
-      zoomManagerRef.current.reset();
-      setState(zoomManagerRef.current.getState());
+    if (zoomManager) {
+      zoomManager.reset();
     }
   };
 
+  const zoomIn = (os?: OS) => {
+    zoomManager?.zoomIn(os || osInfo.os);
+  };
+
+  const zoomOut = (os?: OS) => {
+    zoomManager?.zoomOut(os || osInfo.os);
+  };
+
+  const resetToDefault = (os?: OS) => {
+    zoomManager?.resetToDefault(os || osInfo.os);
+  };
+
   return {
     state,
     osInfo,
     setZoom,
     getZoom,
-    reset
+    reset,
+    zoomIn,
+    zoomOut,
+    resetToDefault
   };
 }
-
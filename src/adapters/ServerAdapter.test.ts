@@ -0,0 +1,133 @@
+/**
+ * @jest-environment jsdom
+ */
+import { detectFromHeaders, resolveServerZoom, renderBootstrap } from './ServerAdapter';
+import { ZoomManager } from '../core/ZoomManager';
+import { ConfigManager } from '../core/ConfigManager';
+import { ServerZoomResult, ZoomControllerConfig } from '../types';
+import { BOOTSTRAP_GLOBAL, getInitialDetection } from '../utils/hydration';
+
+const CHROME_WINDOWS = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+const SAFARI_IPHONE = 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_1_2 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.1 Mobile/15E148 Safari/604.1';
+
+const config: ZoomControllerConfig = { windows: { enabled: true, zoomLevel: 0.8 } };
+const result: ServerZoomResult = { detection: { os: 'windows', isMobile: false }, zoom: 0.8, isActive: true };
+
+describe('detectFromHeaders', () => {
+  it('falls back to the User-Agent header', () => {
+    expect(detectFromHeaders({ 'user-agent': SAFARI_IPHONE })).toMatchObject({
+      os: 'ios',
+      version: '17.1.2',
+      isMobile: true,
+      engine: 'WebKit'
+    });
+  });
+
+  it('prefers Client Hints, including the real Windows version', () => {
+    const detection = detectFromHeaders({
+      'user-agent': CHROME_WINDOWS,
+      'sec-ch-ua': '"Not_A Brand";v="8", "Chromium";v="120", "Microsoft Edge";v="120"',
+      'sec-ch-ua-platform': '"Windows"',
+      'sec-ch-ua-platform-version': '"15.0.0"',
+      'sec-ch-ua-mobile': '?0'
+    });
+    expect(detection).toMatchObject({ os: 'windows', version: '11', isMobile: false, browser: 'Edge' });
+  });
+
+  it('reads a Fetch API Headers object', () => {
+    expect(detectFromHeaders(new Headers({ 'User-Agent': CHROME_WINDOWS })).os).toBe('windows');
+  });
+});
+
+describe('resolveServerZoom', () => {
+  it('resolves the zoom for the detected OS', () => {
+    expect(resolveServerZoom({ 'user-agent': CHROME_WINDOWS }, config)).toMatchObject({ zoom: 0.8, isActive: true });
+  });
+
+  it('reports 1 and inactive when zoom is disabled for the OS', () => {
+    expect(resolveServerZoom({ 'user-agent': SAFARI_IPHONE }, config)).toMatchObject({ zoom: 1, isActive: false });
+  });
+});
+
+describe('renderBootstrap', () => {
+  it('sets the scale factor and stores the result', () => {
+    const html = renderBootstrap(result, { nonce: 'abc' });
+    expect(html).toContain('<style id="oszoom-bootstrap" nonce="abc">:root{--scale-factor:0.8}</style>');
+    expect(html).toContain(`<script nonce="abc">window.${BOOTSTRAP_GLOBAL}=`);
+  });
+
+  it('follows the strategy, token prefix and selector target of the config', () => {
+    expect(renderBootstrap(result, { config: { tokens: { prefix: '--app-' }, target: '#app' } }))
+      .toContain('#app{--app-scale-factor:0.8}');
+    expect(renderBootstrap(result, { config: { strategy: 'zoom' } })).toContain(':root{zoom:0.8}');
+    expect(renderBootstrap(result, { config: { strategy: 'transform' } })).not.toContain('<style');
+  });
+
+  it('keeps the JSON from closing the script tag', () => {
+    const html = renderBootstrap({ ...result, detection: { os: 'windows', isMobile: false, model: '</script>' } });
+    expect(html).not.toContain('</script><');
+    expect(html.match(/<\/script>/g)).toHaveLength(1);
+  });
+});
+
+describe('client hydration from the bootstrap snippet', () => {
+  let manager: ZoomManager | null = null;
+
+  // What the browser does with the snippet in <head>
+  function loadBootstrap(html: string): void {
+    document.head.innerHTML = html;
+    (window as any)[BOOTSTRAP_GLOBAL] = JSON.parse(html.match(/=(\{.*\});<\/script>/)![1]);
+  }
+
+  afterEach(() => {
+    manager?.destroy();
+    manager = null;
+    document.head.innerHTML = '';
+    delete (window as any)[BOOTSTRAP_GLOBAL];
+  });
+
+  it('starts from the server detection', () => {
+    loadBootstrap(renderBootstrap(result));
+    expect(getInitialDetection(ConfigManager.mergeConfig(config))).toEqual(result.detection);
+  });
+
+  it('removes the bootstrap style once the client applies, so reset() returns the page to 1', () => {
+    loadBootstrap(renderBootstrap(result));
+    manager = new ZoomManager(ConfigManager.mergeConfig(config));
+    const root = document.documentElement;
+
+    manager.apply(result.detection);
+    expect(document.getElementById('oszoom-bootstrap')).toBeNull();
+    expect(root.style.getPropertyValue('--scale-factor')).toBe('0.8');
+
+    manager.reset();
+    expect(getComputedStyle(root).getPropertyValue('--scale-factor')).toBe('1');
+  });
+
+  it("removes the bootstrap style when the 'zoom' strategy is reset", () => {
+    loadBootstrap(renderBootstrap(result, { config: { ...config, strategy: 'zoom' } }));
+    manager = new ZoomManager(ConfigManager.mergeConfig({ ...config, strategy: 'zoom' }));
+
+    manager.reset();
+    expect(document.getElementById('oszoom-bootstrap')).toBeNull();
+  });
+
+  it('does not keep the server zoom when the client resolves zoom as disabled', () => {
+    loadBootstrap(renderBootstrap(result));
+    manager = new ZoomManager(ConfigManager.mergeConfig({}));
+
+    manager.apply(result.detection);
+    expect(manager.getState().isActive).toBe(false);
+    expect(document.getElementById('oszoom-bootstrap')).toBeNull();
+  });
+
+  it('removes the bootstrap style on destroy', () => {
+    loadBootstrap(renderBootstrap(result));
+    manager = new ZoomManager(ConfigManager.mergeConfig(config));
+    manager.apply(result.detection);
+    manager.destroy();
+    manager = null;
+    expect(document.getElementById('oszoom-bootstrap')).toBeNull();
+    expect(getComputedStyle(document.documentElement).getPropertyValue('--scale-factor')).toBe('');
+  });
+});
@@ -0,0 +1,228 @@
+import { OSDetector } from '../core/OSDetector';
+import { ZoomManager } from '../core/ZoomManager';
+import { ConfigManager } from '../core/ConfigManager';
+import { ElementZoom } from '../core/ElementZoom';
+import { BrowserBrand, DeviceClass, OS, OSDetectionResult, ServerZoomResult, ZoomControllerConfig } from '../types';
+import { BOOTSTRAP_GLOBAL, BOOTSTRAP_STYLE_ID } from '../utils/hydration';
+
+/**
+ * Request headers - a Fetch API Headers object or a plain object (Node IncomingHttpHeaders)
+ */
+export type RequestHeaders = Headers | { [name: string]: string | string[] | undefined };
+
+/**
+ * Options for the inline bootstrap snippet
+ */
+export interface BootstrapOptions {
+  nonce?: string; // CSP nonce for the inline <style> and <script>
+  config?: ZoomControllerConfig; // Config passed to resolveServerZoom() - decides strategy, token prefix and target selector
+  variable?: string; // CSS variable to set, overriding the one from the token prefix
+}
+
+/**
+ * Detect OS from request headers
+ * Uses Client Hints (Sec-CH-UA, Sec-CH-UA-Platform, Sec-CH-UA-Mobile and, when requested through
+ * Accept-CH, Sec-CH-UA-Platform-Version and Sec-CH-UA-Model) and falls back to the
+ * User-Agent header for browsers that do not send them
+ * @param {RequestHeaders} headers - Request headers
+ * @returns {OSDetectionResult} - Detected OS information
+ */
+export function detectFromHeaders(headers: RequestHeaders): OSDetectionResult {
+  const userAgent = getHeader(headers, 'user-agent') || '';
+  const result = detectFromUserAgent(userAgent);
+  const mobile = getHeader(headers, 'sec-ch-ua-mobile');
+  // Brave sends the same User-Agent as Chrome - only its brand tells them apart
+  const browser = OSDetector.detectBrowserFromBrands(parseBrands(getHeader(headers, 'sec-ch-ua')));
+
+  return OSDetector.applyClientHints({ ...result, ...browser }, {
+    platform: unquote(getHeader(headers, 'sec-ch-ua-platform')),
+    platformVersion: unquote(getHeader(headers, 'sec-ch-ua-platform-version')),
+    model: unquote(getHeader(headers, 'sec-ch-ua-model')),
+    mobile: mobile ? mobile.trim() === '?1' : undefined
+  });
+}
+
+/**
+ * Detect OS from request headers and resolve the zoom to apply
+ * @param {RequestHeaders} headers - Request headers
+ * @param {ZoomControllerConfig} [config] - Configuration object
+ * @returns {ServerZoomResult} - Detection result plus resolved zoom
+ */
+export function resolveServerZoom(headers: RequestHeaders, config?: ZoomControllerConfig): ServerZoomResult {
+  const detection = detectFromHeaders(headers);
+  const zoom = new ZoomManager(ConfigManager.mergeConfig(config)).resolveZoom(detection);
+
+  return {
+    detection,
+    zoom: zoom ?? 1,
+    isActive: zoom !== null
+  };
+}
+
+/**
+ * Render the inline snippet that sets the scale factor before first paint
+ * Put it in <head>. The <style> applies the zoom without waiting for JavaScript, using the
+ * strategy and token prefix of `options.config` (pass the config given to resolveServerZoom());
+ * the <script> stores the result so adapters hydrate from it instead of re-detecting.
+ * @param {ServerZoomResult} result - Result of resolveServerZoom()
+ * @param {BootstrapOptions} [options] - Snippet options
+ * @returns {string} - HTML string
+ */
+export function renderBootstrap(result: ServerZoomResult, options: BootstrapOptions = {}): string {
+  const nonce = options.nonce ? ` nonce="${escapeAttribute(options.nonce)}"` : '';
+  const config = ConfigManager.mergeConfig(options.config);
+  // Escape '<' so the JSON can't close the script tag
+  const json = JSON.stringify(result).replace(/</g, '\\u003c');
+
+  return renderServerStyle(result.zoom, config, options.variable, nonce) +
+    `<script${nonce}>window.${BOOTSTRAP_GLOBAL}=${json};</script>`;
+}
+
+/**
+ * Inline <style> for the resolved strategy - empty for strategies that need the DOM ('transform')
+ * @private
+ */
+function renderServerStyle(zoom: number, config: ZoomControllerConfig, variable: string | undefined, nonce: string): string {
+  const strategy = config.strategy || 'css-variables';
+  // An explicit variable replaces the one named by the token prefix
+  const style = variable && strategy === 'css-variables'
+    ? { [variable]: String(Number(zoom)) }
+    : ElementZoom.getServerStyle(Number(zoom), strategy, config.tokens);
+
+  const declarations = Object.keys(style).map((property) => `${property}:${style[property]}`).join(';');
+  if (!declarations) {
+    return '';
+  }
+  // A selector target is known on the server; elements and shadow roots only exist on the client
+  const selector = typeof config.target === 'string' ? config.target : ':root';
+  return `<style id="${BOOTSTRAP_STYLE_ID}"${nonce}>${selector.replace(/</g, '\\3c ')}{${declarations}}</style>`;
+}
+
+/**
+ * Fallback detection from the User-Agent header
+ * @private
+ */
+function detectFromUserAgent(userAgent: string): OSDetectionResult {
+  let os: OS = 'unknown';
+  let version: string | undefined;
+  let match: RegExpMatchArray | null;
+
+  if ((match = userAgent.match(/(iPhone|iPad|iPod).*? OS (\d+(?:_\d+)*)/))) {
+    os = match[1] === 'iPad' ? 'ipados' : 'ios';
+    version = match[2].replace(/_/g, '.');
+  } else if ((match = userAgent.match(/Android\s*([\d.]+)?/))) {
+    os = 'android';
+    version = match[1];
+  } else if ((match = userAgent.match(/Windows NT ([\d.]+)/))) {
+    os = 'windows';
+    // Windows 11 still reports NT 10.0, so 10 and 11 can't be told apart here
+    version = ({ '6.1': '7', '6.2': '8', '6.3': '8.1' } as Record<string, string>)[match[1]];
+  } else if ((match = userAgent.match(/Mac OS X ([\d_.]+)/))) {
+    os = 'macos';
+    version = match[1].replace(/_/g, '.');
+  } else if (/CrOS/.test(userAgent)) {
+    os = 'chromeos';
+  } else if (/Linux|X11/.test(userAgent)) {
+    os = 'linux';
+  }
+
+  return {
+    os,
+    version,
+    isMobile: /Mobi|Android|iPhone|iPad|iPod/.test(userAgent),
+    deviceClass: deviceClassFromUserAgent(userAgent),
+    ...browserFromUserAgent(userAgent)
+  };
+}
+
+/**
+ * Browser, major version and engine from the User-Agent header
+ * Every browser on iOS runs on WebKit; Brave can't be told apart from Chrome here
+ * @private
+ */
+function browserFromUserAgent(userAgent: string): Pick<OSDetectionResult, 'browser' | 'browserVersion' | 'engine'> {
+  const patterns: Array<[RegExp, string, OSDetectionResult['engine']]> = [
+    [/EdgiOS\/(\d+)/, 'Edge', 'WebKit'],
+    [/Edg(?:e|A)?\/(\d+)/, 'Edge', 'Blink'],
+    [/(?:OPR|OPT)\/(\d+)/, 'Opera', 'Blink'],
+    [/SamsungBrowser\/(\d+)/, 'Samsung Internet', 'Blink'],
+    [/FxiOS\/(\d+)/, 'Firefox', 'WebKit'],
+    [/Firefox\/(\d+)/, 'Firefox', 'Gecko'],
+    [/CriOS\/(\d+)/, 'Chrome', 'WebKit'],
+    [/Chrome\/(\d+)/, 'Chrome', 'Blink'],
+    [/Version\/(\d+).*Safari/, 'Safari', 'WebKit']
+  ];
+
+  for (const [pattern, browser, engine] of patterns) {
+    const match = userAgent.match(pattern);
+    if (match) {
+      return { browser, browserVersion: match[1], engine };
+    }
+  }
+  return { browser: undefined };
+}
+
+/**
+ * Parse the Sec-CH-UA header ("Chromium";v="120", "Brave";v="120", "Not_A Brand";v="8")
+ * @private
+ */
+function parseBrands(header?: string): BrowserBrand[] {
+  if (!header) {
+    return [];
+  }
+
+  const brands: BrowserBrand[] = [];
+  const pattern = /"([^"]*)"\s*;\s*v\s*=\s*"([^"]*)"/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(header))) {
+    brands.push({ brand: match[1], version: match[2] });
+  }
+  return brands;
+}
+
+/**
+ * Device class from the User-Agent header
+ * Android tablets drop the 'Mobile' token; iPads in desktop mode look like Macs and stay 'desktop'
+ * @private
+ */
+function deviceClassFromUserAgent(userAgent: string): DeviceClass {
+  if (/SmartTV|SMART-TV|Web0S|GoogleTV|Android TV|AppleTV|BRAVIA|CrKey|AFT[A-Z]|Tizen.+TV/i.test(userAgent)) {
+    return 'tv';
+  }
+  if (/iPad|Tablet/.test(userAgent) || (/Android/.test(userAgent) && !/Mobile/.test(userAgent))) {
+    return 'tablet';
+  }
+  if (/Mobi|iPhone|iPod/.test(userAgent)) {
+    return 'phone';
+  }
+  return 'desktop';
+}
+
+/**
+ * Read a header from either header shape
+ * @private
+ */
+function getHeader(headers: RequestHeaders, name: string): string | undefined {
+  if (typeof (headers as Headers).get === 'function') {
+    return (headers as Headers).get(name) ?? undefined;
+  }
+
+  const value = (headers as { [name: string]: string | string[] | undefined })[name];
+  return Array.isArray(value) ? value.join(', ') : value;
+}
+
+/**
+ * Strip the quotes from a structured header string ("Windows" -> Windows)
+ * @private
+ */
+function unquote(value?: string): string | undefined {
+  return value ? value.trim().replace(/^"(.*)"$/, '$1') : undefined;
+}
+
+/**
+ * Escape a value for use in an HTML attribute
+ * @private
+ */
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
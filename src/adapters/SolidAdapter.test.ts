@@ -0,0 +1,43 @@
+/**
+ * @jest-environment jsdom
+ */
+import { createRoot } from 'solid-js';
+import { createOSZoom, OSZoomSolid } from './SolidAdapter';
+import { ZoomControllerConfig } from '../types';
+
+const config: ZoomControllerConfig = {
+  initialDetection: { os: 'windows', isMobile: false },
+  windows: { enabled: true, zoomLevel: 0.8 },
+  strategy: 'css-variables'
+};
+
+const scaleFactor = () => document.documentElement.style.getPropertyValue('--scale-factor');
+
+// onMount runs once the root's synchronous setup is done
+function mount(): { zoom: OSZoomSolid; dispose: () => void } {
+  return createRoot((dispose) => ({ zoom: createOSZoom(config), dispose }));
+}
+
+describe('createOSZoom', () => {
+  it('applies the zoom on mount and removes it on cleanup', () => {
+    const { zoom, dispose } = mount();
+    expect(zoom.state()).toMatchObject({ currentZoom: 0.8, isActive: true });
+    expect(zoom.osInfo().os).toBe('windows');
+    expect(scaleFactor()).toBe('0.8');
+
+    dispose();
+    expect(scaleFactor()).toBe('');
+    expect(zoom.getZoom()).toBe(1);
+  });
+
+  it('updates its signals from the manager', () => {
+    const { zoom, dispose } = mount();
+    zoom.zoomOut();
+    expect(zoom.zoom()).toBe(0.75);
+    zoom.setZoom('windows', 1.2);
+    expect(zoom.state().currentZoom).toBe(1.2);
+    zoom.reset();
+    expect(zoom.state().isActive).toBe(false);
+    dispose();
+  });
+});
@@ -0,0 +1,107 @@
+import { createSignal, createMemo, onMount, onCleanup, Accessor } from 'solid-js';
+import { ZoomManager } from '../core/ZoomManager';
+import { ConfigManager } from '../core/ConfigManager';
+import { ZoomControllerConfig, ZoomState, OS, OSDetectionResult } from '../types';
+import { CSSVariables } from '../utils/cssVariables';
+import { getInitialDetection, followDetection } from '../utils/hydration';
+
+/**
+ * OSZoom for Solid: signals for the state, the current level and the detection result, plus actions
+ */
+export interface OSZoomSolid {
+  state: Accessor<ZoomState>;
+  zoom: Accessor<number>;
+  osInfo: Accessor<OSDetectionResult>;
+  setZoom: (os: OS, zoomLevel: number) => void;
+  getZoom: (os?: OS) => number;
+  reset: () => void;
+  zoomIn: (os?: OS) => void;
+  zoomOut: (os?: OS) => void;
+  resetToDefault: (os?: OS) => void;
+}
+
+/**
+ * createOSZoom - SolidJS primitive for OS Zoom Controller
+ * Call it in a component (or another reactive owner): zoom is applied on mount and removed on
+ * cleanup. onMount does not run during SSR (SolidStart), so the server keeps the initial state.
+ * @param {ZoomControllerConfig} config - Configuration object
+ * @returns {OSZoomSolid} - Signals and methods
+ */
+export function createOSZoom(config?: ZoomControllerConfig): OSZoomSolid {
+  const [state, setState] = createSignal<ZoomState>({
+    currentZoom: 1,
+    appliedOS: 'unknown',
+    isActive: false,
+    nativeZoom: 1,
+    pinchZoom: 1
+  });
+
+  // A server-side result keeps hydration in sync with the server markup
+  const [osInfo, setOSInfo] = createSignal<OSDetectionResult>(config?.initialDetection || {
+    os: 'unknown',
+    isMobile: false,
+    browser: undefined
+  });
+
+  const zoom = createMemo(() => state().currentZoom);
+  let zoomManager: ZoomManager | null = null;
+
+  onMount(() => {
+    // Presets and `extends` can set target, tokens and detection options too
+    const mergedConfig = ConfigManager.mergeConfig(config);
+    // Detect OS on client side only, or hydrate from the server result
+    const detectedOSInfo = getInitialDetection(mergedConfig);
+    setOSInfo(detectedOSInfo);
+
+    const manager = new ZoomManager(mergedConfig);
+    const cssVariables = new CSSVariables(mergedConfig.target, mergedConfig.tokens);
+    zoomManager = manager;
+    cssVariables.injectCSS();
+
+    const unsubscribe = manager.subscribe((event) => setState(event.next));
+    manager.apply(detectedOSInfo);
+    manager.attachKeyboard(detectedOSInfo.os);
+    const stopFollowing = followDetection(manager, mergedConfig, (detection) => setOSInfo(detection));
+
+    if (mergedConfig.debug) {
+      console.log('[createOSZoom] Solid - Initialized:', detectedOSInfo);
+    }
+
+    onCleanup(() => {
+      stopFollowing();
+      unsubscribe();
+      manager.destroy();
+      cssVariables.removeCSS();
+      zoomManager = null;
+    });
+  });
+
+  return {
+    state,
+    zoom,
+    osInfo,
+    setZoom: (os: OS, zoomLevel: number) => {
+      if (zoomManager) {
+        zoomManager.setZoom(os, zoomLevel);
+      }
+    },
+    getZoom: (os?: OS): number => {
+      if (!zoomManager) return 1;
+      return zoomManager.getZoom(os || osInfo().os);
+    },
+    reset: () => {
+      if (zoomManager) {
+        zoomManager.reset();
+      }
+    },
+    zoomIn: (os?: OS) => {
+      zoomManager?.zoomIn(os || osInfo().os);
+    },
+    zoomOut: (os?: OS) => {
+      zoomManager?.zoomOut(os || osInfo().os);
+    },
+    resetToDefault: (os?: OS) => {
+      zoomManager?.resetToDefault(os || osInfo().os);
+    }
+  };
+}
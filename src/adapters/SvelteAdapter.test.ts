@@ -0,0 +1,68 @@
+/**
+ * @jest-environment jsdom
+ */
+import { get } from 'svelte/store';
+import { createOSZoomStore } from './SvelteAdapter';
+import { ZoomControllerConfig, ZoomState } from '../types';
+
+const config: ZoomControllerConfig = {
+  initialDetection: { os: 'windows', isMobile: false },
+  windows: { enabled: true, zoomLevel: 0.8 },
+  strategy: 'css-variables'
+};
+
+const scaleFactor = () => document.documentElement.style.getPropertyValue('--scale-factor');
+
+describe('createOSZoomStore', () => {
+  it('applies the zoom while it has subscribers', () => {
+    const store = createOSZoomStore(config);
+    expect(scaleFactor()).toBe('');
+
+    const states: ZoomState[] = [];
+    const unsubscribe = store.subscribe((state) => states.push(state));
+    expect(states[states.length - 1]).toMatchObject({ currentZoom: 0.8, isActive: true });
+    expect(scaleFactor()).toBe('0.8');
+
+    unsubscribe();
+    expect(scaleFactor()).toBe('');
+    expect(store.getZoom()).toBe(1);
+  });
+
+  it('keeps one manager across the derived stores', () => {
+    const store = createOSZoomStore(config);
+    const levels: number[] = [];
+    const stopZoom = store.zoom.subscribe((level) => levels.push(level));
+    const stopOSInfo = store.osInfo.subscribe(() => {});
+
+    store.zoomIn();
+    expect(levels).toEqual([0.8, 0.9]);
+    expect(get(store.osInfo).os).toBe('windows');
+
+    stopZoom();
+    // Still running for the osInfo subscriber
+    expect(scaleFactor()).toBe('0.9');
+    stopOSInfo();
+    expect(scaleFactor()).toBe('');
+  });
+
+  it('sets a user level for the detected OS through the writable zoom store', () => {
+    const store = createOSZoomStore(config);
+    const unsubscribe = store.subscribe(() => {});
+
+    store.zoom.set(1.1);
+    expect(store.getZoom('windows')).toBe(1.1);
+    store.zoom.update((level) => level + 0.1);
+    expect(store.getZoom('windows')).toBeCloseTo(1.2);
+
+    store.resetToDefault();
+    expect(scaleFactor()).toBe('0.8');
+    unsubscribe();
+  });
+
+  it('does nothing without subscribers', () => {
+    const store = createOSZoomStore(config);
+    store.setZoom('windows', 1.2);
+    expect(store.getZoom()).toBe(1);
+    expect(scaleFactor()).toBe('');
+  });
+});
@@ -0,0 +1,139 @@
+import { readable, derived, Readable, Writable } from 'svelte/store';
+import { ZoomManager } from '../core/ZoomManager';
+import { ConfigManager } from '../core/ConfigManager';
+import { ZoomControllerConfig, ZoomState, OS, OSDetectionResult } from '../types';
+import { CSSVariables } from '../utils/cssVariables';
+import { getInitialDetection, followDetection } from '../utils/hydration';
+
+/**
+ * OSZoom for Svelte: `$store` is the ZoomState, `$zoom` the current level (bindable),
+ * `$osInfo` the detection result
+ */
+export interface OSZoomStore extends Readable<ZoomState> {
+  osInfo: Readable<OSDetectionResult>;
+  zoom: Writable<number>;
+  setZoom: (os: OS, zoomLevel: number) => void;
+  getZoom: (os?: OS) => number;
+  reset: () => void;
+  zoomIn: (os?: OS) => void;
+  zoomOut: (os?: OS) => void;
+  resetToDefault: (os?: OS) => void;
+}
+
+interface OSZoomSnapshot {
+  state: ZoomState;
+  osInfo: OSDetectionResult;
+}
+
+/**
+ * createOSZoomStore - Svelte store for OS Zoom Controller
+ * Zoom is applied while the store (or `zoom` / `osInfo`) has subscribers and removed after the
+ * last one leaves. During SSR (SvelteKit) the stores only hold the initial state.
+ * @param {ZoomControllerConfig} config - Configuration object
+ * @returns {OSZoomStore} - Store with derived stores and actions
+ */
+export function createOSZoomStore(config?: ZoomControllerConfig): OSZoomStore {
+  let zoomManager: ZoomManager | null = null;
+
+  const initialSnapshot: OSZoomSnapshot = {
+    state: {
+      currentZoom: 1,
+      appliedOS: 'unknown',
+      isActive: false,
+      nativeZoom: 1,
+      pinchZoom: 1
+    },
+    osInfo: config?.initialDetection || {
+      os: 'unknown',
+      isMobile: false,
+      browser: undefined
+    }
+  };
+
+  // Latest value, so actions need no subscription (get() would start and stop the store)
+  let current = initialSnapshot;
+
+  // Started by the first subscriber and stopped after the last one (across all derived stores)
+  const snapshot = readable<OSZoomSnapshot>(initialSnapshot, (set) => {
+    // Only run on client side (SSR-safe)
+    if (typeof window === 'undefined') {
+      return;
+    }
+
+    const update = (changes: Partial<OSZoomSnapshot>) => {
+      current = { ...current, ...changes };
+      set(current);
+    };
+
+    // Presets and `extends` can set target, tokens and detection options too
+    const mergedConfig = ConfigManager.mergeConfig(config);
+    // Detect OS on client side, or hydrate from the server result
+    const osInfo = getInitialDetection(mergedConfig);
+    const manager = new ZoomManager(mergedConfig);
+    const cssVariables = new CSSVariables(mergedConfig.target, mergedConfig.tokens);
+    zoomManager = manager;
+    update({ osInfo });
+    cssVariables.injectCSS();
+
+    const unsubscribe = manager.subscribe((event) => update({ state: event.next }));
+    manager.apply(osInfo);
+    manager.attachKeyboard(osInfo.os);
+    const stopFollowing = followDetection(manager, mergedConfig, (detection) => update({ osInfo: detection }));
+
+    if (mergedConfig.debug) {
+      console.log('[createOSZoomStore] Svelte - Initialized:', osInfo);
+    }
+
+    return () => {
+      stopFollowing();
+      unsubscribe();
+      manager.destroy();
+      cssVariables.removeCSS();
+      zoomManager = null;
+      current = initialSnapshot;
+      set(current);
+    };
+  });
+
+  const state = derived(snapshot, ($snapshot) => $snapshot.state);
+  const osInfo = derived(snapshot, ($snapshot) => $snapshot.osInfo);
+  const currentOS = () => current.osInfo.os;
+
+  const setZoom = (os: OS, zoomLevel: number) => {
+    if (zoomManager) {
+      zoomManager.setZoom(os, zoomLevel);
+    }
+  };
+
+  // Writing the level sets a user-chosen zoom for the detected OS: <input bind:value={$zoom}>
+  const zoom: Writable<number> = {
+    subscribe: derived(state, ($state) => $state.currentZoom).subscribe,
+    set: (zoomLevel: number) => setZoom(currentOS(), zoomLevel),
+    update: (updater: (zoomLevel: number) => number) => setZoom(currentOS(), updater(current.state.currentZoom))
+  };
+
+  return {
+    subscribe: state.subscribe,
+    osInfo,
+    zoom,
+    setZoom,
+    getZoom: (os?: OS): number => {
+      if (!zoomManager) return 1;
+      return zoomManager.getZoom(os || currentOS());
+    },
+    reset: () => {
+      if (zoomManager) {
+        zoomManager.reset();
+      }
+    },
+    zoomIn: (os?: OS) => {
+      zoomManager?.zoomIn(os || currentOS());
+    },
+    zoomOut: (os?: OS) => {
+      zoomManager?.zoomOut(os || currentOS());
+    },
+    resetToDefault: (os?: OS) => {
+      zoomManager?.resetToDefault(os || currentOS());
+    }
+  };
+}
@@ -1,27 +1,76 @@
-import { OSDetector } from '../core/OSDetector';
 import { ZoomManager } from '../core/ZoomManager';
 import { ConfigManager } from '../core/ConfigManager';
-import { ZoomControllerConfig, OS } from '../types';
+import {
+  ZoomControllerConfig,
+  OS,
+  OSDetectionResult,
+  ZoomEventMap,
+  ZoomEventListener,
+  ZoomExplanation
+} from '../types';
 import { CSSVariables } from '../utils/cssVariables';
+import { getInitialDetection, followDetection } from '../utils/hydration';
 
 /**
  * OSZoom - Vanilla HTML/JavaScript adapter
  * Main class for vanilla JavaScript integration
  */
 export class OSZoom {
-  private osDetector: typeof OSDetector;
   private zoomManager: ZoomManager;
   private cssVariables: CSSVariables;
+  private osInfo: OSDetectionResult;
+  private stopFollowing: () => void = () => {};
 
   // Static reference to ConfigManager for presets
   static ConfigManager = ConfigManager;
 
+  // The page's instance: the first one zooming the whole document, until it is destroyed
+  static instance: OSZoom | null = null;
+
+  private static instanceListeners: Set<(instance: OSZoom | null) => void> = new Set();
+
   constructor(config?: ZoomControllerConfig) {
-    this.osDetector = OSDetector;
-    this.cssVariables = new CSSVariables();
+    // Presets and `extends` can set target, tokens and detection options too
     const mergedConfig = ConfigManager.mergeConfig(config);
+    this.cssVariables = new CSSVariables(mergedConfig.target, mergedConfig.tokens);
+    // Hydrate from a server-side result when there is one
+    this.osInfo = getInitialDetection(mergedConfig);
     this.zoomManager = new ZoomManager(mergedConfig);
     this.initialize(mergedConfig);
+
+    // Scoped instances (a target element) never become the page's instance
+    const zoomsDocument = !mergedConfig.target ||
+      (typeof document !== 'undefined' && mergedConfig.target === document.documentElement);
+    if (zoomsDocument && !OSZoom.instance) {
+      OSZoom.setInstance(this);
+    }
+  }
+
+  /**
+   * Listen for the page's instance being created or destroyed
+   * @param {Function} listener - Called with the new OSZoom.instance (null once it is destroyed)
+   * @returns {Function} - Function that removes the listener
+   */
+  static onInstanceChange(listener: (instance: OSZoom | null) => void): () => void {
+    OSZoom.instanceListeners.add(listener);
+    return () => {
+      OSZoom.instanceListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Set the page's instance and tell the listeners
+   * @private
+   */
+  private static setInstance(instance: OSZoom | null): void {
+    OSZoom.instance = instance;
+    OSZoom.instanceListeners.forEach((listener) => {
+      try {
+        listener(instance);
+      } catch (error) {
+        console.error('[OSZoom] Error in instance listener:', error);
+      }
+    });
   }
 
   /**
@@ -32,9 +81,15 @@ export class OSZoom {
     // Inject CSS variables
     this.cssVariables.injectCSS();
 
-    // Detect OS and apply zoom
-    const osInfo = this.osDetector.detect();
-    this.zoomManager.apply(osInfo.os);
+    // Apply zoom for the detected OS
+    const osInfo = this.osInfo;
+    this.zoomManager.apply(osInfo);
+    this.zoomManager.attachKeyboard(osInfo.os);
+
+    // Follow re-detection in watch mode and the Client Hints refinement
+    this.stopFollowing = followDetection(this.zoomManager, config, (detection) => {
+      this.osInfo = detection;
+    });
 
     if (config.debug) {
       console.log('[OSZoom] Initialized:', osInfo);
@@ -71,12 +126,61 @@ export class OSZoom {
     this.zoomManager.reset();
   }
 
+  /**
+   * Step up to the next zoom level on the ladder
+   * @param {OS} [os] - Operating system (defaults to detected OS)
+   */
+  zoomIn(os?: OS): void {
+    this.zoomManager.zoomIn(os || this.getOSInfo().os);
+  }
+
+  /**
+   * Step down to the previous zoom level on the ladder
+   * @param {OS} [os] - Operating system (defaults to detected OS)
+   */
+  zoomOut(os?: OS): void {
+    this.zoomManager.zoomOut(os || this.getOSInfo().os);
+  }
+
+  /**
+   * Go back to the configured zoom, dropping the user's chosen level
+   * @param {OS} [os] - Operating system (defaults to detected OS)
+   */
+  resetToDefault(os?: OS): void {
+    this.zoomManager.resetToDefault(os || this.getOSInfo().os);
+  }
+
+  /**
+   * Forget the user's saved zoom preference
+   * @param {OS} [os] - Only forget the preference for this OS
+   */
+  clearPreference(os?: OS): void {
+    this.zoomManager.clearPreference(os);
+  }
+
   /**
    * Get detected OS information
+   * Returns the same object on every call - OSDetector's cached result is frozen
    * @returns {Object} - OS detection result
    */
-  getOSInfo() {
-    return this.osDetector.detect();
+  getOSInfo(): OSDetectionResult {
+    return this.osInfo;
+  }
+
+  /**
+   * Explain how the current zoom level was resolved (which rule won and why)
+   * @returns {ZoomExplanation}
+   */
+  explain(): ZoomExplanation {
+    return this.zoomManager.explain(this.osInfo);
+  }
+
+  /**
+   * Get the allowed zoom range (minZoom/maxZoom, or the defaults)
+   * @returns {Object} - { min, max }
+   */
+  getBounds(): { min: number; max: number } {
+    return this.zoomManager.getBounds();
   }
 
   /**
@@ -87,12 +191,45 @@ export class OSZoom {
     return this.zoomManager.getState();
   }
 
+  /**
+   * Subscribe to zoom state changes
+   * @param {Function} listener - Called with previous and next state on every change
+   * @returns {Function} - Unsubscribe function
+   */
+  subscribe(listener: ZoomEventListener<'change'>): () => void {
+    return this.zoomManager.subscribe(listener);
+  }
+
+  /**
+   * Listen for a zoom event ('change', 'apply', 'reset', 'animationend', 'nativezoomchange' or 'detectionchange')
+   * @param {string} type - Event name
+   * @param {Function} listener - Event listener
+   * @returns {Function} - Function that removes the listener
+   */
+  on<K extends keyof ZoomEventMap>(type: K, listener: ZoomEventListener<K>): () => void {
+    return this.zoomManager.on(type, listener);
+  }
+
+  /**
+   * Remove a zoom event listener
+   * @param {string} type - Event name
+   * @param {Function} listener - Listener previously passed to on()
+   */
+  off<K extends keyof ZoomEventMap>(type: K, listener: ZoomEventListener<K>): void {
+    this.zoomManager.off(type, listener);
+  }
+
   /**
    * Destroy controller and cleanup
    */
   destroy(): void {
+    this.stopFollowing();
     this.reset();
+    this.zoomManager.destroy();
     this.cssVariables.removeCSS();
+    if (OSZoom.instance === this) {
+      OSZoom.setInstance(null);
+    }
   }
 }
 
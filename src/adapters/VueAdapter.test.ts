@@ -0,0 +1,104 @@
+/**
+ * @jest-environment jsdom
+ */
+import { createApp, createSSRApp, defineComponent, h, nextTick, withDirectives } from 'vue';
+import { renderToString } from 'vue/server-renderer';
+import { useOSZoom, OSZoomPlugin, OSZoomVue, vZoom } from './VueAdapter';
+import { ZoomControllerConfig } from '../types';
+
+const config: ZoomControllerConfig = {
+  initialDetection: { os: 'windows', isMobile: false },
+  windows: { enabled: true, zoomLevel: 0.8 },
+  strategy: 'css-variables'
+};
+
+const scaleFactor = (element: HTMLElement = document.documentElement) => element.style.getPropertyValue('--scale-factor');
+
+// Component that hands the composable's API to the test
+function probe(results: OSZoomVue[], composableConfig?: ZoomControllerConfig) {
+  return defineComponent({
+    setup() {
+      results.push(useOSZoom(composableConfig));
+      return () => null;
+    }
+  });
+}
+
+describe('useOSZoom', () => {
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    container.remove();
+  });
+
+  it('applies the zoom once mounted and keeps its state reactive', () => {
+    const results: OSZoomVue[] = [];
+    const app = createApp(probe(results, config));
+    app.mount(container);
+    const zoom = results[0];
+
+    expect(zoom.state.value).toMatchObject({ currentZoom: 0.8, isActive: true });
+    expect(zoom.osInfo.value.os).toBe('windows');
+    expect(scaleFactor()).toBe('0.8');
+
+    zoom.zoomOut();
+    expect(zoom.state.value.currentZoom).toBe(0.75);
+    expect(zoom.getZoom()).toBe(0.75);
+
+    app.unmount();
+    expect(scaleFactor()).toBe('');
+    expect(zoom.getZoom()).toBe(1);
+  });
+
+  it('shares the plugin instance with useOSZoom and $oszoom', () => {
+    const results: OSZoomVue[] = [];
+    const Child = probe(results, { windows: { enabled: true, zoomLevel: 1.2 } });
+    const app = createApp({ render: () => [h(Child), h(Child)] });
+    app.use(OSZoomPlugin, config);
+
+    // Nothing happens before mount
+    expect(scaleFactor()).toBe('');
+    app.mount(container);
+
+    expect(results[0]).toBe(results[1]);
+    expect(results[0]).toBe(app.config.globalProperties.$oszoom);
+    expect(results[0].state.value.currentZoom).toBe(0.8);
+
+    app.unmount();
+    expect(scaleFactor()).toBe('');
+  });
+});
+
+describe('v-zoom', () => {
+  it('zooms the element and follows the bound value', async () => {
+    const level = { value: 0.9 };
+    const app = createApp(defineComponent({
+      data: () => level,
+      render() {
+        return withDirectives(h('section', { id: 'panel' }), [[vZoom, this.value]]);
+      }
+    }));
+    const container = document.body.appendChild(document.createElement('div'));
+    const vm = app.mount(container) as unknown as typeof level;
+    const panel = container.querySelector<HTMLElement>('#panel')!;
+    expect(scaleFactor(panel)).toBe('0.9');
+
+    vm.value = 0.5;
+    await nextTick();
+    expect(scaleFactor(panel)).toBe('0.5');
+
+    app.unmount();
+    expect(scaleFactor(panel)).toBe('');
+    container.remove();
+  });
+
+  it('writes the level inline during a server render', async () => {
+    const app = createSSRApp({ render: () => withDirectives(h('section'), [[vZoom, 0.75]]) });
+    expect(await renderToString(app)).toContain('--scale-factor:0.75');
+  });
+});
@@ -1,74 +1,223 @@
-import { ref, Ref, onMounted, onUnmounted } from 'vue';
-import { OSDetector } from '../core/OSDetector';
+import { ref, Ref, onMounted, onUnmounted, inject, App, InjectionKey, ObjectDirective, Plugin } from 'vue';
 import { ZoomManager } from '../core/ZoomManager';
 import { ConfigManager } from '../core/ConfigManager';
-import { ZoomControllerConfig, ZoomState, OS, OSDetectionResult } from '../types';
+import { ElementZoom } from '../core/ElementZoom';
+import { ZoomControllerConfig, ZoomState, OS, OSDetectionResult, ZoomStrategyName } from '../types';
 import { CSSVariables } from '../utils/cssVariables';
+import { getInitialDetection, followDetection } from '../utils/hydration';
 
 /**
- * useOSZoom - Vue 3 Composable for OS Zoom Controller
- * @param {ZoomControllerConfig} config - Configuration object
- * @returns {Object} - Composable API with reactive state and methods
+ * Reactive OSZoom API returned by useOSZoom() and exposed as $oszoom
+ */
+export interface OSZoomVue {
+  state: Ref<ZoomState>;
+  osInfo: Ref<OSDetectionResult>;
+  setZoom: (os: OS, zoomLevel: number) => void;
+  getZoom: (os?: OS) => number;
+  reset: () => void;
+  zoomIn: (os?: OS) => void;
+  zoomOut: (os?: OS) => void;
+  resetToDefault: (os?: OS) => void;
+}
+
+/**
+ * Value of the v-zoom directive: a zoom level, or a level with its own strategy
+ */
+export type ZoomDirectiveValue = number | { zoomLevel: number; strategy?: ZoomStrategyName };
+
+export const OS_ZOOM_KEY: InjectionKey<OSZoomVue> = Symbol('oszoom');
+
+declare module 'vue' {
+  interface ComponentCustomProperties {
+    $oszoom: OSZoomVue;
+  }
+}
+
+/**
+ * Create the reactive API plus start/stop hooks for the component or app lifecycle
+ * @private
  */
-export function useOSZoom(config?: ZoomControllerConfig) {
+function createZoomController(config?: ZoomControllerConfig) {
   const state: Ref<ZoomState> = ref({
     currentZoom: 1,
     appliedOS: 'unknown',
-    isActive: false
+    isActive: false,
+    nativeZoom: 1,
+    pinchZoom: 1
   });
 
-  const osInfo: Ref<OSDetectionResult> = ref({
+  const osInfo: Ref<OSDetectionResult> = ref(config?.initialDetection || {
     os: 'unknown',
     isMobile: false,
     browser: undefined
   });
   let zoomManager: ZoomManager | null = null;
-  const cssVariables = new CSSVariables();
+  let unsubscribe: (() => void) | null = null;
+  let stopFollowing: (() => void) | null = null;
+  let stopped = false;
+  let cssVariables: CSSVariables | null = null;
+
+  const start = () => {
+    if (zoomManager || stopped) {
+      return;
+    }
 
-  onMounted(() => {
-    // Detect OS on client side only (SSR-safe)
-    const detectedOSInfo = OSDetector.detect();
+    // Presets and `extends` can set target, tokens and detection options too
+    const mergedConfig = ConfigManager.mergeConfig(config);
+    // Detect OS on client side only (SSR-safe), or hydrate from the server result
+    const detectedOSInfo = getInitialDetection(mergedConfig);
     osInfo.value = detectedOSInfo;
-    
-    zoomManager = new ZoomManager(ConfigManager.mergeConfig(config));
+
+    zoomManager = new ZoomManager(mergedConfig);
+    cssVariables = new CSSVariables(mergedConfig.target, mergedConfig.tokens);
     cssVariables.injectCSS();
-    zoomManager.apply(detectedOSInfo.os as OS);
-    state.value = zoomManager.getState();
+    // Drive the reactive state from manager events
+    unsubscribe = zoomManager.subscribe((event) => {
+      state.value = event.next;
+    });
+    zoomManager.apply(detectedOSInfo);
+    zoomManager.attachKeyboard(detectedOSInfo.os as OS);
+    stopFollowing = followDetection(zoomManager, mergedConfig, (detection) => {
+      osInfo.value = detection;
+    });
 
-    if (config?.debug) {
+    if (mergedConfig.debug) {
       console.log('[useOSZoom] Vue - Initialized:', osInfo.value);
     }
-  });
+  };
 
-  onUnmounted(() => {
-    cssVariables.removeCSS();
-  });
+  // Releases only this composable's share of the stylesheet - other instances keep it
+  const stop = () => {
+    stopped = true;
+    stopFollowing?.();
+    stopFollowing = null;
+    unsubscribe?.();
+    unsubscribe = null;
+    zoomManager?.destroy();
+    zoomManager = null;
+    cssVariables?.removeCSS();
+    cssVariables = null;
+  };
 
-  const setZoom = (os: OS, zoomLevel: number) => {
-    if (zoomManager) {
-      zoomManager.setZoom(os, zoomLevel);
-      state.value = zoomManager.getState();
+  const api: OSZoomVue = {
+    state,
+    osInfo,
+    setZoom: (os: OS, zoomLevel: number) => {
+      if (zoomManager) {
+        zoomManager.setZoom(os, zoomLevel);
+      }
+    },
+    getZoom: (os?: OS): number => {
+      if (!zoomManager) return 1;
+      return zoomManager.getZoom(os || osInfo.value.os);
+    },
+    reset: () => {
+      if (zoomManager) {
+        zoomManager.reset();
+      }
+    },
+    zoomIn: (os?: OS) => {
+      zoomManager?.zoomIn(os || osInfo.value.os);
+    },
+    zoomOut: (os?: OS) => {
+      zoomManager?.zoomOut(os || osInfo.value.os);
+    },
+    resetToDefault: (os?: OS) => {
+      zoomManager?.resetToDefault(os || osInfo.value.os);
     }
   };
 
-  const getZoom = (os?: OS): number => {
-    if (!zoomManager) return 1;
-    return zoomManager.getZoom(os || osInfo.value.os);
-  };
+  return { api, start, stop };
+}
+
+/**
+ * useOSZoom - Vue 3 Composable for OS Zoom Controller
+ * With OSZoomPlugin installed it returns the app's shared instance (and ignores `config`);
+ * otherwise it creates one for the component
+ * @param {ZoomControllerConfig} config - Configuration object (standalone use)
+ * @returns {Object} - Composable API with reactive state and methods
+ */
+export function useOSZoom(config?: ZoomControllerConfig): OSZoomVue {
+  const shared = inject(OS_ZOOM_KEY, null);
+  if (shared) {
+    return shared;
+  }
+
+  const controller = createZoomController(config);
+  onMounted(controller.start);
+  onUnmounted(controller.stop);
+  return controller.api;
+}
+
+/**
+ * Create the v-zoom directive, which scales a single element
+ * `v-zoom="0.9"` uses the default strategy; `v-zoom="{ zoomLevel: 0.9, strategy: 'zoom' }"` picks one.
+ * The 'css-variables' strategy sets a scoped --scale-factor that composes with ancestor scopes.
+ * @param {ZoomControllerConfig} [config] - Config whose strategy and token prefix are used
+ * @returns {ObjectDirective}
+ */
+export function createZoomDirective(userConfig?: ZoomControllerConfig): ObjectDirective<HTMLElement, ZoomDirectiveValue> {
+  // Resolve `extends`, so a preset's strategy and tokens apply here too
+  const config = userConfig && ConfigManager.compose(userConfig);
+  const zooms: WeakMap<HTMLElement, ElementZoom> = new WeakMap();
+  const defaultStrategy = config?.strategy || 'css-variables';
 
-  const reset = () => {
-    if (zoomManager) {
-      zoomManager.reset();
-      state.value = zoomManager.getState();
+  const normalize = (value: ZoomDirectiveValue) => typeof value === 'number'
+    ? { zoomLevel: value, name: defaultStrategy }
+    : { zoomLevel: value.zoomLevel, name: value.strategy || defaultStrategy };
+
+  const apply = (el: HTMLElement, value: ZoomDirectiveValue) => {
+    let zoom = zooms.get(el);
+    if (!zoom) {
+      zoom = new ElementZoom(el, config?.tokens);
+      zooms.set(el, zoom);
     }
+    const { zoomLevel, name } = normalize(value);
+    zoom.apply(zoomLevel, name);
   };
 
   return {
-    state,
-    osInfo,
-    setZoom,
-    getZoom,
-    reset
+    mounted: (el, binding) => apply(el, binding.value),
+    updated: (el, binding) => apply(el, binding.value),
+    unmounted: (el) => {
+      zooms.get(el)?.clear();
+      zooms.delete(el);
+    },
+    // Server render: write the level inline so the markup is already scaled before hydration
+    getSSRProps: (binding) => {
+      const { zoomLevel, name } = normalize(binding.value);
+      return { style: ElementZoom.getServerStyle(zoomLevel, name, config?.tokens) };
+    }
   };
 }
 
+/**
+ * v-zoom directive with the default ('css-variables') strategy, for local registration
+ */
+export const vZoom = createZoomDirective();
+
+/**
+ * OSZoomPlugin - app.use(OSZoomPlugin, config)
+ * Provides one shared instance to useOSZoom() and $oszoom, and registers v-zoom.
+ * Zoom starts after app.mount() - on the client, after hydration - so it is safe with Nuxt SSR.
+ */
+export const OSZoomPlugin: Plugin = {
+  install(app: App, config?: ZoomControllerConfig) {
+    const controller = createZoomController(config);
+
+    app.provide(OS_ZOOM_KEY, controller.api);
+    app.config.globalProperties.$oszoom = controller.api;
+    app.directive('zoom', createZoomDirective(config));
+
+    const { mount, unmount } = app;
+    app.mount = ((...args: Parameters<App['mount']>) => {
+      const root = mount(...args);
+      controller.start();
+      return root;
+    }) as App['mount'];
+    app.unmount = () => {
+      controller.stop();
+      unmount();
+    };
+  }
+};
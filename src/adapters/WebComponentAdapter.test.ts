@@ -0,0 +1,117 @@
+/**
+ * @jest-environment jsdom
+ */
+import { OSZoomControl, defineOSZoomControl } from './WebComponentAdapter';
+import { OSZoom } from './VanillaAdapter';
+import { ZoomControllerConfig } from '../types';
+
+const config: ZoomControllerConfig = {
+  initialDetection: { os: 'windows', isMobile: false },
+  windows: { enabled: true, zoomLevel: 0.8 },
+  strategy: 'css-variables'
+};
+
+defineOSZoomControl();
+
+function createControl(attributes: Record<string, string> = {}): OSZoomControl {
+  const control = document.createElement('os-zoom-control') as OSZoomControl;
+  Object.keys(attributes).forEach((name) => control.setAttribute(name, attributes[name]));
+  document.body.appendChild(control);
+  return control;
+}
+
+const part = <T extends Element>(control: OSZoomControl, name: string) =>
+  control.shadowRoot!.querySelector(`[part~="${name}"]`) as T;
+
+describe('<os-zoom-control>', () => {
+  let warn: jest.SpyInstance;
+
+  beforeEach(() => {
+    warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+    OSZoom.instance?.destroy();
+    warn.mockRestore();
+  });
+
+  it('drives the page instance and shows its zoom', () => {
+    const zoom = new OSZoom(config);
+    const control = createControl({ variant: 'stepper' });
+    expect(control.zoom).toBe(zoom);
+    expect(part(control, 'value').textContent).toBe('80%');
+
+    part<HTMLButtonElement>(control, 'increase').click();
+    expect(zoom.getState().currentZoom).toBe(0.9);
+    expect(part(control, 'value').textContent).toBe('90%');
+  });
+
+  it('attaches to a page instance created after it', () => {
+    const control = createControl();
+    expect(control.zoom).toBeNull();
+    expect(part<HTMLInputElement>(control, 'slider').disabled).toBe(true);
+
+    const zoom = new OSZoom(config);
+    expect(control.zoom).toBe(zoom);
+    expect(part<HTMLInputElement>(control, 'slider').disabled).toBe(false);
+    expect(part(control, 'value').textContent).toBe('80%');
+
+    // And lets go of it when it is destroyed
+    zoom.destroy();
+    expect(control.zoom).toBeNull();
+    expect(part<HTMLInputElement>(control, 'slider').disabled).toBe(true);
+  });
+
+  it('keeps an instance set through the zoom property', () => {
+    const scoped = document.createElement('div');
+    const own = new OSZoom({ ...config, target: scoped });
+    const control = createControl();
+    control.zoom = own;
+
+    new OSZoom(config);
+    expect(control.zoom).toBe(own);
+    own.destroy();
+  });
+
+  it('takes the slider range from the controller, unless set', () => {
+    new OSZoom({ ...config, minZoom: 0.75, maxZoom: 1.5 });
+    const control = createControl();
+    const slider = part<HTMLInputElement>(control, 'slider');
+    expect([slider.min, slider.max]).toEqual(['0.75', '1.5']);
+
+    control.max = 1.25;
+    expect(slider.max).toBe('1.25');
+  });
+
+  it('creates and destroys its own instance from data-oszoom-* attributes', () => {
+    const control = createControl({ 'data-oszoom-windows': '0.9', 'data-oszoom-strategy': 'css-variables' });
+    const own = control.zoom!;
+    expect(own).toBe(OSZoom.instance);
+
+    control.remove();
+    expect(OSZoom.instance).toBeNull();
+  });
+
+  it('sets the level from the presets and dispatches zoomchange', () => {
+    new OSZoom(config);
+    const control = createControl({ presets: 'Compact:0.8,Large:125%' });
+    const onChange = jest.fn();
+    control.addEventListener('zoomchange', onChange);
+
+    const select = part<HTMLSelectElement>(control, 'presets');
+    expect(Array.from(select.options).map((option) => option.textContent)).toEqual(['Compact', 'Large']);
+    select.value = '1.25';
+    select.dispatchEvent(new Event('change'));
+
+    expect(OSZoom.instance!.getState().currentZoom).toBe(1.25);
+    expect(onChange.mock.calls[0][0].detail).toMatchObject({ cause: 'setZoom' });
+  });
+
+  it('returns to the configured zoom from the reset button', () => {
+    const zoom = new OSZoom(config);
+    zoom.setZoom('windows', 1.1);
+    part<HTMLButtonElement>(createControl(), 'reset').click();
+    expect(zoom.getState().currentZoom).toBe(0.8);
+  });
+});
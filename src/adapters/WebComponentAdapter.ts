@@ -0,0 +1,350 @@
+import { OSZoom } from './VanillaAdapter';
+import { ZoomManager } from '../core/ZoomManager';
+import { ZoomChangeEvent } from '../types';
+import { readAttributeConfig } from '../utils/autoInit';
+
+export type OSZoomControlVariant = 'slider' | 'stepper';
+
+/**
+ * A zoom level offered in the preset dropdown
+ */
+export interface OSZoomControlPreset {
+  label: string;
+  zoomLevel: number;
+}
+
+// Extending HTMLElement must not break module evaluation during SSR
+const BaseElement: typeof HTMLElement = typeof HTMLElement !== 'undefined'
+  ? HTMLElement
+  : (class {} as unknown as typeof HTMLElement);
+
+const STYLES = `
+  :host { display: inline-flex; align-items: center; gap: 0.5em; font: inherit; }
+  :host([hidden]) { display: none; }
+  [part~="container"] { display: inline-flex; align-items: center; gap: 0.5em; }
+  [part~="value"] { min-width: 3.5em; text-align: center; font-variant-numeric: tabular-nums; }
+  [hidden] { display: none !important; }
+`;
+
+/**
+ * OSZoomControl - `<os-zoom-control>` custom element
+ * Framework-agnostic zoom UI: slider or stepper, current percentage, reset button and an
+ * optional preset dropdown. Style it through the parts container, slider, button, decrease,
+ * increase, value, presets and reset.
+ *
+ * Attributes: variant ('slider' | 'stepper'), min, max, step, presets ('Compact:0.8,Default:1')
+ * and data-oszoom-* config attributes for an instance it creates itself when the page has none.
+ * Dispatches a bubbling, composed `zoomchange` CustomEvent whose detail is the ZoomChangeEvent.
+ */
+export class OSZoomControl extends BaseElement {
+  static readonly DEFAULT_STEP = 0.05;
+
+  static get observedAttributes(): string[] {
+    return ['variant', 'min', 'max', 'step', 'presets'];
+  }
+
+  private controller: OSZoom | null = null;
+  private ownsController = false;
+  // False once a controller is set through the zoom property
+  private followsPage = true;
+  private unsubscribe: (() => void) | null = null;
+  private stopWatching: (() => void) | null = null;
+  private root: ShadowRoot | null = null;
+  private slider: HTMLInputElement | null = null;
+  private decrease: HTMLButtonElement | null = null;
+  private increase: HTMLButtonElement | null = null;
+  private output: HTMLOutputElement | null = null;
+  private presetSelect: HTMLSelectElement | null = null;
+
+  /**
+   * The OSZoom instance the control drives
+   * Defaults to the page's instance (OSZoom.instance), picked up whenever it is created. Without
+   * one, a control with data-oszoom-* attributes creates its own when connected; a bare control
+   * stays disabled until the page creates one. Setting null goes back to the page's instance.
+   */
+  get zoom(): OSZoom | null {
+    return this.controller;
+  }
+
+  set zoom(controller: OSZoom | null) {
+    this.release();
+    this.controller = controller ?? OSZoom.instance;
+    this.ownsController = false;
+    this.followsPage = !controller;
+    if (this.isConnected) {
+      this.bind();
+    }
+  }
+
+  get variant(): OSZoomControlVariant {
+    return this.getAttribute('variant') === 'stepper' ? 'stepper' : 'slider';
+  }
+
+  set variant(variant: OSZoomControlVariant) {
+    this.setAttribute('variant', variant);
+  }
+
+  /**
+   * Slider minimum (defaults to the controller's minZoom)
+   */
+  get min(): number {
+    return this.getNumberAttribute('min', this.controller?.getBounds().min ?? ZoomManager.DEFAULT_MIN_ZOOM);
+  }
+
+  set min(value: number) {
+    this.setAttribute('min', String(value));
+  }
+
+  /**
+   * Slider maximum (defaults to the controller's maxZoom)
+   */
+  get max(): number {
+    return this.getNumberAttribute('max', this.controller?.getBounds().max ?? ZoomManager.DEFAULT_MAX_ZOOM);
+  }
+
+  set max(value: number) {
+    this.setAttribute('max', String(value));
+  }
+
+  get step(): number {
+    return this.getNumberAttribute('step', OSZoomControl.DEFAULT_STEP);
+  }
+
+  set step(value: number) {
+    this.setAttribute('step', String(value));
+  }
+
+  /**
+   * Zoom levels offered in the dropdown, parsed from the `presets` attribute
+   * ('Compact:0.8,Default:1,Large:125%'; a bare level is labelled with its percentage)
+   */
+  get presets(): OSZoomControlPreset[] {
+    return (this.getAttribute('presets') || '')
+      .split(',')
+      .map((entry) => entry.trim())
+      .filter(Boolean)
+      .map((entry) => {
+        const separator = entry.lastIndexOf(':');
+        const value = (separator === -1 ? entry : entry.slice(separator + 1)).trim();
+        const zoomLevel = value.endsWith('%') ? parseFloat(value) / 100 : parseFloat(value);
+        const label = separator === -1 ? OSZoomControl.formatPercent(zoomLevel) : entry.slice(0, separator).trim();
+        return { label, zoomLevel };
+      })
+      .filter((preset) => isFinite(preset.zoomLevel));
+  }
+
+  set presets(presets: OSZoomControlPreset[]) {
+    this.setAttribute('presets', presets.map(({ label, zoomLevel }) => `${label}:${zoomLevel}`).join(','));
+  }
+
+  connectedCallback(): void {
+    if (!this.root) {
+      this.root = this.attachShadow({ mode: 'open' });
+      this.renderSkeleton();
+    }
+    // The page's instance may have changed while the control was detached
+    if (this.followsPage && !this.ownsController) {
+      this.controller = OSZoom.instance;
+    }
+    if (!this.controller) {
+      this.attachController();
+    }
+    this.update();
+    this.bind();
+    this.stopWatching = OSZoom.onInstanceChange((instance) => this.handleInstanceChange(instance));
+  }
+
+  disconnectedCallback(): void {
+    this.stopWatching?.();
+    this.stopWatching = null;
+    this.release();
+  }
+
+  attributeChangedCallback(): void {
+    if (this.root) {
+      this.update();
+    }
+  }
+
+  /**
+   * Drive the page's instance, or create one from the control's own config attributes
+   * A second instance would fight the page's one over the document and its stylesheet
+   * @private
+   */
+  private attachController(): void {
+    if (OSZoom.instance) {
+      this.controller = OSZoom.instance;
+      this.ownsController = false;
+      return;
+    }
+
+    const config = readAttributeConfig(null, this);
+    if (!config) {
+      console.warn('[OSZoom] <os-zoom-control> has no OSZoom instance: create one first, set its zoom property or add data-oszoom-* attributes');
+      return;
+    }
+    this.controller = new OSZoom(config);
+    this.ownsController = true;
+  }
+
+  /**
+   * Follow the page's instance when it is created after the control, or destroyed under it
+   * @private
+   */
+  private handleInstanceChange(instance: OSZoom | null): void {
+    // Keep a live controller; only fill an empty control or drop a destroyed one
+    if (!this.followsPage || this.ownsController || (instance && this.controller)) {
+      return;
+    }
+    this.release();
+    this.controller = instance;
+    this.update();
+    this.bind();
+  }
+
+  /**
+   * Build the shadow DOM once
+   * @private
+   */
+  private renderSkeleton(): void {
+    const root = this.root!;
+    root.innerHTML = `
+      <style>${STYLES}</style>
+      <div part="container" role="group" aria-label="Zoom">
+        <button part="button decrease" type="button" aria-label="Zoom out">&minus;</button>
+        <input part="slider" type="range" aria-label="Zoom level">
+        <button part="button increase" type="button" aria-label="Zoom in">+</button>
+        <output part="value" aria-live="polite"></output>
+        <select part="presets" aria-label="Zoom preset"></select>
+        <button part="button reset" type="button">Reset</button>
+      </div>
+    `;
+
+    this.decrease = root.querySelector('[part~="decrease"]');
+    this.increase = root.querySelector('[part~="increase"]');
+    this.slider = root.querySelector('[part~="slider"]');
+    this.output = root.querySelector('[part~="value"]');
+    this.presetSelect = root.querySelector('[part~="presets"]');
+
+    this.decrease!.addEventListener('click', () => this.controller?.zoomOut());
+    this.increase!.addEventListener('click', () => this.controller?.zoomIn());
+    this.slider!.addEventListener('input', () => this.setLevel(parseFloat(this.slider!.value)));
+    this.presetSelect!.addEventListener('change', () => {
+      const zoomLevel = parseFloat(this.presetSelect!.value);
+      if (isFinite(zoomLevel)) {
+        this.setLevel(zoomLevel);
+      }
+    });
+    root.querySelector('[part~="reset"]')!.addEventListener('click', () => this.controller?.resetToDefault());
+  }
+
+  /**
+   * Listen to the controller and show its state
+   * @private
+   */
+  private bind(): void {
+    if (!this.controller || this.unsubscribe) {
+      return;
+    }
+    this.unsubscribe = this.controller.subscribe((event) => {
+      this.update();
+      this.dispatchEvent(new CustomEvent<ZoomChangeEvent>('zoomchange', { detail: event, bubbles: true, composed: true }));
+    });
+    this.update();
+  }
+
+  /**
+   * Stop listening, and destroy the controller when the control created it
+   * @private
+   */
+  private release(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+
+    if (this.ownsController) {
+      this.controller?.destroy();
+      this.controller = null;
+      this.ownsController = false;
+    }
+  }
+
+  /**
+   * Set a user-chosen level for the detected OS
+   * @private
+   */
+  private setLevel(zoomLevel: number): void {
+    if (!this.controller) {
+      return;
+    }
+    this.controller.setZoom(this.controller.getOSInfo().os, zoomLevel);
+  }
+
+  /**
+   * Sync the shadow DOM with the attributes and the current zoom
+   * @private
+   */
+  private update(): void {
+    if (!this.root) {
+      return;
+    }
+
+    const zoomLevel = this.controller?.getState().currentZoom ?? 1;
+    const percent = OSZoomControl.formatPercent(zoomLevel);
+    const stepper = this.variant === 'stepper';
+
+    this.decrease!.hidden = !stepper;
+    this.increase!.hidden = !stepper;
+    this.slider!.hidden = stepper;
+    this.slider!.min = String(this.min);
+    this.slider!.max = String(this.max);
+    this.slider!.step = String(this.step);
+    this.slider!.value = String(zoomLevel);
+    this.slider!.setAttribute('aria-valuetext', percent);
+    this.output!.textContent = percent;
+
+    const presets = this.presets;
+    this.presetSelect!.hidden = presets.length === 0;
+    this.presetSelect!.replaceChildren(...presets.map(({ label, zoomLevel: level }) => {
+      const option = document.createElement('option');
+      option.value = String(level);
+      option.textContent = label;
+      return option;
+    }));
+    const selected = presets.find((preset) => Math.abs(preset.zoomLevel - zoomLevel) < 0.001);
+    this.presetSelect!.value = selected ? String(selected.zoomLevel) : '';
+
+    // Nothing to drive without an instance
+    this.root.querySelectorAll<HTMLButtonElement | HTMLInputElement | HTMLSelectElement>('button, input, select')
+      .forEach((control) => {
+        control.disabled = !this.controller;
+      });
+  }
+
+  /**
+   * Read a numeric attribute
+   * @private
+   */
+  private getNumberAttribute(name: string, fallback: number): number {
+    const value = parseFloat(this.getAttribute(name) ?? '');
+    return isFinite(value) ? value : fallback;
+  }
+
+  /**
+   * Format a zoom level as a percentage
+   * @private
+   */
+  private static formatPercent(zoomLevel: number): string {
+    return `${Math.round(zoomLevel * 100)}%`;
+  }
+}
+
+/**
+ * Register the custom element (no-op during SSR or when the tag is already defined)
+ * @param {string} [tagName] - Tag name (default: 'os-zoom-control')
+ */
+export function defineOSZoomControl(tagName: string = 'os-zoom-control'): void {
+  if (typeof customElements === 'undefined' || customElements.get(tagName)) {
+    return;
+  }
+  customElements.define(tagName, OSZoomControl);
+}
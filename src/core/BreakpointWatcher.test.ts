@@ -0,0 +1,153 @@
+/**
+ * @jest-environment jsdom
+ */
+import { BreakpointWatcher } from './BreakpointWatcher';
+import { ZoomManager } from './ZoomManager';
+import { ConfigManager } from './ConfigManager';
+import { ZoomBreakpoint } from '../types';
+
+function setWindow(values: { innerWidth?: number; innerHeight?: number; devicePixelRatio?: number }): void {
+  Object.keys(values).forEach((key) => {
+    Object.defineProperty(window, key, { value: (values as any)[key], configurable: true });
+  });
+}
+
+// matchMedia that matches the queries in `matching` and lets tests fire change events
+const matching = new Set<string>();
+const mediaListeners = new Map<string, Set<() => void>>();
+window.matchMedia = ((media: string) => ({
+  media,
+  get matches() {
+    return matching.has(media);
+  },
+  addEventListener: (_type: string, listener: () => void) => {
+    mediaListeners.set(media, (mediaListeners.get(media) || new Set()).add(listener));
+  },
+  removeEventListener: (_type: string, listener: () => void) => {
+    mediaListeners.get(media)?.delete(listener);
+  }
+})) as any;
+
+const fireMediaChange = (media: string) => mediaListeners.get(media)?.forEach((listener) => listener());
+const resize = () => window.dispatchEvent(new Event('resize'));
+
+// Laptops below 1400px at 125% display scaling get 0.8, other screens 0.9
+const laptop: ZoomBreakpoint[] = [
+  { maxWidth: 1399, minDpr: 1.25, zoomLevel: 0.8 },
+  { zoomLevel: 0.9 }
+];
+
+beforeEach(() => {
+  matching.clear();
+  mediaListeners.clear();
+  setWindow({ innerWidth: 1920, innerHeight: 1080, devicePixelRatio: 1 });
+});
+
+describe('BreakpointWatcher.resolve', () => {
+  it('picks the first matching breakpoint', () => {
+    expect(BreakpointWatcher.resolve(laptop)).toBe(0.9);
+    setWindow({ innerWidth: 1366, devicePixelRatio: 1.25 });
+    expect(BreakpointWatcher.resolve(laptop)).toBe(0.8);
+  });
+
+  it('treats bounds as inclusive', () => {
+    expect(BreakpointWatcher.matches({ minWidth: 1920, maxWidth: 1920, maxDpr: 1, zoomLevel: 1 })).toBe(true);
+    expect(BreakpointWatcher.matches({ maxHeight: 1079, zoomLevel: 1 })).toBe(false);
+  });
+
+  it('checks orientation and media queries', () => {
+    expect(BreakpointWatcher.matches({ orientation: 'landscape', zoomLevel: 1 })).toBe(true);
+    setWindow({ innerWidth: 800, innerHeight: 1200 });
+    expect(BreakpointWatcher.matches({ orientation: 'landscape', zoomLevel: 1 })).toBe(false);
+
+    expect(BreakpointWatcher.matches({ media: '(pointer: coarse)', zoomLevel: 1 })).toBe(false);
+    matching.add('(pointer: coarse)');
+    expect(BreakpointWatcher.matches({ media: '(pointer: coarse)', zoomLevel: 1 })).toBe(true);
+  });
+
+  it('returns undefined when nothing matches', () => {
+    expect(BreakpointWatcher.resolve([{ minWidth: 4000, zoomLevel: 1.2 }])).toBeUndefined();
+  });
+});
+
+describe('BreakpointWatcher', () => {
+  let onChange: jest.Mock;
+  let watcher: BreakpointWatcher;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    onChange = jest.fn();
+    watcher = new BreakpointWatcher(onChange, 100);
+  });
+
+  afterEach(() => {
+    watcher.stop();
+    jest.useRealTimers();
+  });
+
+  it('debounces resize and orientation changes', () => {
+    watcher.watch(laptop);
+    resize();
+    resize();
+    window.dispatchEvent(new Event('orientationchange'));
+    jest.advanceTimersByTime(99);
+    expect(onChange).not.toHaveBeenCalled();
+    jest.advanceTimersByTime(1);
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports media query and DPR changes', () => {
+    watcher.watch([{ media: '(pointer: coarse)', zoomLevel: 1.1 }]);
+    fireMediaChange('(pointer: coarse)');
+    jest.advanceTimersByTime(100);
+    expect(onChange).toHaveBeenCalledTimes(1);
+
+    // The DPR query is renewed for the new value
+    setWindow({ devicePixelRatio: 2 });
+    fireMediaChange('(resolution: 1dppx)');
+    jest.advanceTimersByTime(100);
+    expect(onChange).toHaveBeenCalledTimes(2);
+    expect(mediaListeners.get('(resolution: 1dppx)')!.size).toBe(0);
+    expect(mediaListeners.get('(resolution: 2dppx)')!.size).toBe(1);
+  });
+
+  it('stops listening and cancels a pending notification', () => {
+    watcher.watch(laptop);
+    resize();
+    watcher.stop();
+    jest.advanceTimersByTime(100);
+    resize();
+    jest.advanceTimersByTime(100);
+    expect(onChange).not.toHaveBeenCalled();
+  });
+});
+
+describe('ZoomManager with breakpoints', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('re-applies when a different breakpoint matches', () => {
+    const manager = new ZoomManager(ConfigManager.mergeConfig({
+      strategy: 'css-variables',
+      breakpointDebounce: 50,
+      windows: { enabled: true, zoomLevel: 1, breakpoints: laptop }
+    }));
+    const listener = jest.fn();
+    manager.subscribe(listener);
+
+    manager.apply('windows');
+    expect(manager.getState().currentZoom).toBe(0.9);
+
+    setWindow({ innerWidth: 1366, devicePixelRatio: 1.25 });
+    resize();
+    jest.advanceTimersByTime(50);
+    expect(manager.getState().currentZoom).toBe(0.8);
+    expect(listener).toHaveBeenLastCalledWith(expect.objectContaining({ cause: 'breakpoint' }));
+    manager.destroy();
+  });
+});
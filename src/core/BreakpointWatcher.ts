@@ -0,0 +1,160 @@
+import { ZoomBreakpoint } from '../types';
+
+/**
+ * BreakpointWatcher - Evaluates viewport, DPR and orientation breakpoints
+ * and reports (debounced) when the environment they depend on changes
+ */
+export class BreakpointWatcher {
+  static readonly DEFAULT_DEBOUNCE = 150;
+
+  private onChange: () => void;
+  private debounce: number;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private mediaQueries: MediaQueryList[] = [];
+  private dprQuery: MediaQueryList | null = null;
+  private watching = false;
+
+  /**
+   * @param {Function} onChange - Called after the environment changed
+   * @param {number} [debounce] - Debounce delay in milliseconds
+   */
+  constructor(onChange: () => void, debounce: number = BreakpointWatcher.DEFAULT_DEBOUNCE) {
+    this.onChange = onChange;
+    this.debounce = debounce;
+  }
+
+  /**
+   * Find the zoom level of the first matching breakpoint
+   * @param {ZoomBreakpoint[]} breakpoints - Ordered breakpoint rules
+   * @returns {number | undefined} - Zoom level, or undefined when none matches
+   */
+  static resolve(breakpoints: ZoomBreakpoint[]): number | undefined {
+    const match = breakpoints.find((breakpoint) => BreakpointWatcher.matches(breakpoint));
+    return match?.zoomLevel;
+  }
+
+  /**
+   * Check a breakpoint against the current environment
+   * All conditions of a breakpoint must hold; width/height/DPR bounds are inclusive.
+   * Never matches during SSR.
+   * @param {ZoomBreakpoint} breakpoint - Breakpoint rule
+   * @returns {boolean}
+   */
+  static matches(breakpoint: ZoomBreakpoint): boolean {
+    if (typeof window === 'undefined') {
+      return false;
+    }
+
+    const width = window.innerWidth;
+    const height = window.innerHeight;
+    const dpr = window.devicePixelRatio || 1;
+    const orientation = height >= width ? 'portrait' : 'landscape';
+
+    return (breakpoint.minWidth === undefined || width >= breakpoint.minWidth) &&
+           (breakpoint.maxWidth === undefined || width <= breakpoint.maxWidth) &&
+           (breakpoint.minHeight === undefined || height >= breakpoint.minHeight) &&
+           (breakpoint.maxHeight === undefined || height <= breakpoint.maxHeight) &&
+           (breakpoint.minDpr === undefined || dpr >= breakpoint.minDpr) &&
+           (breakpoint.maxDpr === undefined || dpr <= breakpoint.maxDpr) &&
+           (breakpoint.orientation === undefined || orientation === breakpoint.orientation) &&
+           (breakpoint.media === undefined || BreakpointWatcher.matchMedia(breakpoint.media));
+  }
+
+  /**
+   * Start listening for resize, orientation, DPR and media query changes
+   * @param {ZoomBreakpoint[]} breakpoints - Breakpoints whose media queries should be watched
+   */
+  watch(breakpoints: ZoomBreakpoint[]): void {
+    this.watchMedia(breakpoints.filter((breakpoint) => breakpoint.media).map((breakpoint) => breakpoint.media!));
+  }
+
+  /**
+   * Start listening for resize, orientation, DPR and changes of the given media queries
+   * @param {string[]} queries - Media queries to watch, e.g. '(pointer: coarse)'
+   */
+  watchMedia(queries: string[]): void {
+    if (typeof window === 'undefined') {
+      return;
+    }
+
+    this.stop();
+    window.addEventListener('resize', this.schedule);
+    window.addEventListener('orientationchange', this.schedule);
+    this.watching = true;
+
+    if (typeof window.matchMedia !== 'function') {
+      return;
+    }
+
+    queries.forEach((media) => {
+      const query = window.matchMedia(media);
+      query.addEventListener('change', this.schedule);
+      this.mediaQueries.push(query);
+    });
+    this.watchDevicePixelRatio();
+  }
+
+  /**
+   * Stop listening and cancel a pending notification
+   */
+  stop(): void {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    if (!this.watching) {
+      return;
+    }
+
+    window.removeEventListener('resize', this.schedule);
+    window.removeEventListener('orientationchange', this.schedule);
+    this.mediaQueries.forEach((query) => query.removeEventListener('change', this.schedule));
+    this.mediaQueries = [];
+    this.dprQuery?.removeEventListener('change', this.handleDprChange);
+    this.dprQuery = null;
+    this.watching = false;
+  }
+
+  /**
+   * Watch the current DPR - the query only matches one value, so it is renewed after every change
+   * (moving the window to another monitor changes DPR without always firing resize)
+   * @private
+   */
+  private watchDevicePixelRatio(): void {
+    this.dprQuery?.removeEventListener('change', this.handleDprChange);
+    this.dprQuery = window.matchMedia(`(resolution: ${window.devicePixelRatio || 1}dppx)`);
+    this.dprQuery.addEventListener('change', this.handleDprChange);
+  }
+
+  /**
+   * Handle a DPR change
+   * @private
+   */
+  private handleDprChange = (): void => {
+    this.watchDevicePixelRatio();
+    this.schedule();
+  };
+
+  /**
+   * Debounce change notifications
+   * @private
+   */
+  private schedule = (): void => {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.onChange();
+    }, this.debounce);
+  };
+
+  /**
+   * Evaluate a media query (false when matchMedia is unavailable)
+   * @private
+   */
+  private static matchMedia(query: string): boolean {
+    return typeof window.matchMedia === 'function' && window.matchMedia(query).matches;
+  }
+}
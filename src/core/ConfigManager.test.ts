@@ -0,0 +1,118 @@
+import { ConfigManager } from './ConfigManager';
+import { OSZoomConfigError } from './OSZoomConfigError';
+
+describe('ConfigManager', () => {
+  let warn: jest.SpyInstance;
+
+  beforeEach(() => {
+    warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    warn.mockRestore();
+  });
+
+  describe('mergeConfig', () => {
+    it('fills in the defaults', () => {
+      const config = ConfigManager.mergeConfig();
+      expect(config.windows).toEqual({ enabled: false, zoomLevel: 1 });
+      expect(warn).not.toHaveBeenCalled();
+    });
+
+    it('keeps user values over the defaults', () => {
+      const config = ConfigManager.mergeConfig({ windows: { enabled: true, zoomLevel: 0.8 } });
+      expect(config.windows).toEqual({ enabled: true, zoomLevel: 0.8 });
+      expect(config.macos).toEqual({ enabled: false, zoomLevel: 1 });
+    });
+
+    it('treats an OS entry without enabled as enabled and warns', () => {
+      const config = ConfigManager.mergeConfig({ windows: { zoomLevel: 0.8 } } as any);
+      expect(config.windows).toEqual({ enabled: true, zoomLevel: 0.8 });
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('Missing enabled flag'));
+    });
+
+    it('resolves presets named in extends', () => {
+      ConfigManager.registerPreset('test-brand', {
+        linux: { enabled: true, zoomLevel: 1.1 },
+        tokens: { prefix: '--brand-' }
+      });
+      const config = ConfigManager.mergeConfig({ extends: 'test-brand', windows: { enabled: true, zoomLevel: 0.9 } });
+      expect(config.linux).toEqual({ enabled: true, zoomLevel: 1.1 });
+      expect(config.windows).toEqual({ enabled: true, zoomLevel: 0.9 });
+      expect(config.tokens?.prefix).toBe('--brand-');
+    });
+
+    it('throws for an unknown preset and a circular extends chain', () => {
+      expect(() => ConfigManager.mergeConfig({ extends: 'no-such-preset' })).toThrow(OSZoomConfigError);
+      ConfigManager.registerPreset('test-a', { extends: 'test-b' });
+      ConfigManager.registerPreset('test-b', { extends: 'test-a' });
+      expect(() => ConfigManager.getPreset('test-a')).toThrow(OSZoomConfigError);
+    });
+  });
+
+  describe('compose', () => {
+    it('deep-merges later configs over earlier ones', () => {
+      const config = ConfigManager.compose(
+        { tokens: { prefix: '--a-', tokens: { gap: '8px' } } },
+        { tokens: { tokens: { radius: 4 } } }
+      );
+      expect(config.tokens).toEqual({ prefix: '--a-', tokens: { gap: '8px', radius: 4 } });
+    });
+
+    it('replaces initialDetection as a whole', () => {
+      const config = ConfigManager.compose(
+        { initialDetection: { os: 'windows', isMobile: false, version: '11' } },
+        { initialDetection: { os: 'macos', isMobile: false } }
+      );
+      expect(config.initialDetection).toEqual({ os: 'macos', isMobile: false });
+    });
+  });
+
+  describe('isEqual', () => {
+    it('compares configs by value', () => {
+      expect(ConfigManager.isEqual({ windows: { enabled: true, zoomLevel: 0.9 } }, { windows: { enabled: true, zoomLevel: 0.9 } })).toBe(true);
+      expect(ConfigManager.isEqual({ windows: { enabled: true, zoomLevel: 0.9 } }, { windows: { enabled: true, zoomLevel: 0.8 } })).toBe(false);
+    });
+  });
+
+  describe('resolve', () => {
+    it('clamps out-of-range zoom levels in lenient mode', () => {
+      const config = ConfigManager.resolve({ windows: { enabled: true, zoomLevel: 5 } });
+      expect(config.windows?.zoomLevel).toBe(2);
+      expect(warn).toHaveBeenCalled();
+    });
+
+    it('throws OSZoomConfigError in strict mode', () => {
+      expect(() => ConfigManager.resolve({ strict: true, windows: { enabled: true, zoomLevel: 5 } }))
+        .toThrow(OSZoomConfigError);
+    });
+
+    it('only warns about warnings in strict mode', () => {
+      expect(() => ConfigManager.resolve({ strict: true, zoomlevel: 0.8 } as any)).not.toThrow();
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('zoomlevel'));
+    });
+  });
+
+  describe('validate', () => {
+    it('returns no issues for a valid config', () => {
+      expect(ConfigManager.validate({ windows: { enabled: true, zoomLevel: 0.8 }, minZoom: 0.5 })).toEqual([]);
+    });
+
+    it('reports unknown keys as warnings', () => {
+      expect(ConfigManager.validate({ zoomlevel: 0.8 } as any)).toEqual([
+        expect.objectContaining({ path: 'zoomlevel', severity: 'warning' })
+      ]);
+    });
+
+    it('reports invalid zoom levels and bounds as errors', () => {
+      const issues = ConfigManager.validate({ windows: { enabled: true, zoomLevel: -1 }, minZoom: 2, maxZoom: 1 });
+      expect(issues.map((issue) => issue.path)).toEqual(expect.arrayContaining(['minZoom', 'windows.zoomLevel']));
+      expect(issues.every((issue) => issue.severity === 'error')).toBe(true);
+    });
+
+    it('does not log', () => {
+      ConfigManager.validate({ zoomlevel: 0.8 } as any);
+      expect(warn).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,4 +1,68 @@
-import { ZoomControllerConfig } from '../types';
+import { ZoomControllerConfig, OSZoomConfig, ConfigIssue, ConfigIssueSeverity } from '../types';
+import { ZoomManager } from './ZoomManager';
+import { OSZoomConfigError } from './OSZoomConfigError';
+
+type PresetSource = ZoomControllerConfig | (() => ZoomControllerConfig);
+
+const BUILT_IN_PRESETS = {
+  /**
+   * Only Windows at 80% zoom
+   */
+  windowsOnly: {
+    windows: { enabled: true, zoomLevel: 0.8 },
+    macos: { enabled: false, zoomLevel: 1 },
+    linux: { enabled: false, zoomLevel: 1 },
+    android: { enabled: false, zoomLevel: 1 },
+    ios: { enabled: false, zoomLevel: 1 }
+  },
+
+  /**
+   * Only macOS at 80% zoom
+   */
+  macosOnly: {
+    windows: { enabled: false, zoomLevel: 1 },
+    macos: { enabled: true, zoomLevel: 0.8 },
+    linux: { enabled: false, zoomLevel: 1 },
+    android: { enabled: false, zoomLevel: 1 },
+    ios: { enabled: false, zoomLevel: 1 }
+  },
+
+  /**
+   * All desktop systems at 80%
+   */
+  desktopOnly: {
+    windows: { enabled: true, zoomLevel: 0.8 },
+    macos: { enabled: true, zoomLevel: 0.8 },
+    linux: { enabled: true, zoomLevel: 0.8 },
+    android: { enabled: false, zoomLevel: 1 },
+    ios: { enabled: false, zoomLevel: 1 }
+  },
+
+  /**
+   * All platforms at 80%
+   */
+  allPlatforms: {
+    windows: { enabled: true, zoomLevel: 0.8 },
+    macos: { enabled: true, zoomLevel: 0.8 },
+    linux: { enabled: true, zoomLevel: 0.8 },
+    android: { enabled: true, zoomLevel: 0.8 },
+    ios: { enabled: true, zoomLevel: 0.8 }
+  },
+
+  /**
+   * Mobile only at 80%
+   */
+  mobileOnly: {
+    windows: { enabled: false, zoomLevel: 1 },
+    macos: { enabled: false, zoomLevel: 1 },
+    linux: { enabled: false, zoomLevel: 1 },
+    android: { enabled: true, zoomLevel: 0.8 },
+    ios: { enabled: true, zoomLevel: 0.8 }
+  }
+} satisfies { [name: string]: ZoomControllerConfig };
+
+type PresetFactories = Record<keyof typeof BUILT_IN_PRESETS, () => ZoomControllerConfig> &
+  { [name: string]: () => ZoomControllerConfig };
 
 /**
  * ConfigManager - Handles configuration and presets
@@ -15,76 +79,372 @@ export class ConfigManager {
     enableJavaScript: true
   };
 
+  private static readonly OS_KEYS = ['windows', 'macos', 'linux', 'chromeos', 'android', 'ios', 'ipados'] as const;
+
+  private static readonly DEVICE_CLASSES = ['phone', 'tablet', 'desktop', 'tv'] as const;
+
+  // Every config key - a Record so a new ZoomControllerConfig key cannot be forgotten here
+  private static readonly KNOWN_KEYS: Record<keyof ZoomControllerConfig, true> = {
+    windows: true, macos: true, linux: true, chromeos: true, android: true, ios: true, ipados: true,
+    devices: true, detectionFallback: true, debug: true, enableCSS: true, enableJavaScript: true, persist: true,
+    zoomSteps: true, minZoom: true, maxZoom: true, keyboard: true, clientHints: true,
+    initialDetection: true, target: true, strategy: true, tokens: true,
+    breakpointDebounce: true, watch: true, rules: true, ruleResolution: true, transition: true,
+    nativeZoom: true, strict: true, extends: true
+  };
+
+  private static readonly OPTIONS: { [key: string]: readonly string[] } = {
+    strategy: ['css-variables', 'zoom', 'transform', 'font-size'],
+    ruleResolution: ['first-match', 'most-specific'],
+    nativeZoom: ['ignore', 'track', 'compensate']
+  };
+
+  // Values that are replaced as a whole instead of deep-merged
+  private static readonly REPLACED_KEYS = ['initialDetection'];
+
   /**
-   * Merge user config with defaults
+   * Validate the user config (see resolve()), then deep-merge it over the defaults
+   * Validation runs first, so an entry such as `{ windows: { zoomLevel: 0.8 } }` is reported
+   * and treated as enabled instead of taking the defaults' `enabled: false`
    * @param {ZoomControllerConfig} userConfig - User provided configuration
    * @returns {ZoomControllerConfig} - Merged configuration
+   * @throws {OSZoomConfigError} - In strict mode when the config has errors, or for an unknown preset
    */
   static mergeConfig(userConfig?: ZoomControllerConfig): ZoomControllerConfig {
-    return {
-      ...this.DEFAULT_CONFIG,
-      ...userConfig
+    return this.compose(this.DEFAULT_CONFIG, this.resolve(this.compose(userConfig)));
+  }
+
+  /**
+   * Check a config for unknown keys, invalid or out-of-range zoom levels and invalid options
+   * @param {ZoomControllerConfig} config - Configuration to check
+   * @returns {ConfigIssue[]} - Issues found (empty for a valid config)
+   */
+  static validate(config: ZoomControllerConfig): ConfigIssue[] {
+    return this.inspect(config).issues;
+  }
+
+  /**
+   * Validate a config and deal with its issues
+   * Strict mode throws when there is an error. Otherwise every issue is logged as a warning
+   * and a repaired config is returned: zoom levels are clamped, invalid values fall back to defaults.
+   * @param {ZoomControllerConfig} config - Configuration to check
+   * @returns {ZoomControllerConfig} - Repaired configuration
+   * @throws {OSZoomConfigError} - In strict mode, when the config has errors
+   */
+  static resolve(config: ZoomControllerConfig): ZoomControllerConfig {
+    const { issues, repaired } = this.inspect(config);
+    const errors = issues.filter((issue) => issue.severity === 'error');
+    if (config.strict && errors.length > 0) {
+      throw new OSZoomConfigError(errors);
+    }
+
+    issues.forEach((issue) => console.warn(`[OSZoom] ${issue.path}: ${issue.message}`));
+    return repaired;
+  }
+
+  /**
+   * Collect issues and build the repaired config in one pass
+   * @private
+   */
+  private static inspect(config: ZoomControllerConfig): { issues: ConfigIssue[]; repaired: ZoomControllerConfig } {
+    const issues: ConfigIssue[] = [];
+    const repaired: ZoomControllerConfig = { ...config };
+    const report = (path: string, message: string, severity: ConfigIssueSeverity = 'error') => {
+      issues.push({ path, message, severity });
+    };
+    const isLevel = (value: unknown): value is number =>
+      typeof value === 'number' && isFinite(value) && value > 0;
+
+    Object.keys(config).forEach((key) => {
+      if (!(key in this.KNOWN_KEYS)) {
+        report(key, 'Unknown config key (ignored)', 'warning');
+      }
+    });
+
+    (['minZoom', 'maxZoom'] as const).forEach((key) => {
+      if (config[key] !== undefined && !isLevel(config[key])) {
+        report(key, `Must be a positive number, got ${String(config[key])}`);
+        delete repaired[key];
+      }
+    });
+
+    let min = repaired.minZoom ?? ZoomManager.DEFAULT_MIN_ZOOM;
+    let max = repaired.maxZoom ?? ZoomManager.DEFAULT_MAX_ZOOM;
+    if (min > max) {
+      report('minZoom', `minZoom (${min}) is greater than maxZoom (${max}); defaults used`);
+      delete repaired.minZoom;
+      delete repaired.maxZoom;
+      min = ZoomManager.DEFAULT_MIN_ZOOM;
+      max = ZoomManager.DEFAULT_MAX_ZOOM;
+    }
+
+    const checkLevel = (path: string, value: unknown): number => {
+      const clamp = (level: number) => Math.min(max, Math.max(min, level));
+      if (!isLevel(value)) {
+        report(path, `Zoom level must be a positive number, got ${String(value)}; ${clamp(1)} used`);
+        return clamp(1);
+      }
+      if (value < min || value > max) {
+        report(path, `Zoom level ${value} is outside ${min}-${max}; clamped to ${clamp(value)}`);
+        return clamp(value);
+      }
+      return value;
     };
+
+    // OS and device class entries share the enabled / zoomLevel shape
+    const checkZoomConfig = (path: string, value: unknown): OSZoomConfig => {
+      if (typeof value !== 'object' || value === null) {
+        report(path, `Must be an object with enabled and zoomLevel, got ${String(value)}; disabled`);
+        return { enabled: false, zoomLevel: 1 };
+      }
+
+      const source = value as OSZoomConfig;
+      const fixed: OSZoomConfig = { ...source, zoomLevel: checkLevel(`${path}.zoomLevel`, source.zoomLevel) };
+      // An entry that only sets a zoom level means "zoom this OS"
+      if (source.enabled === undefined) {
+        report(`${path}.enabled`, 'Missing enabled flag; treated as true', 'warning');
+        fixed.enabled = true;
+      } else if (typeof source.enabled !== 'boolean') {
+        report(`${path}.enabled`, `Must be a boolean, got ${String(source.enabled)}`);
+        fixed.enabled = !!source.enabled;
+      }
+      if (source.versions) {
+        const versions: { [version: string]: number } = {};
+        Object.keys(source.versions).forEach((version) => {
+          versions[version] = checkLevel(`${path}.versions.${version}`, source.versions![version]);
+        });
+        fixed.versions = versions;
+      }
+      if (source.breakpoints) {
+        fixed.breakpoints = source.breakpoints.map((breakpoint, index) => ({
+          ...breakpoint,
+          zoomLevel: checkLevel(`${path}.breakpoints[${index}].zoomLevel`, breakpoint.zoomLevel)
+        }));
+      }
+      return fixed;
+    };
+
+    this.OS_KEYS.forEach((os) => {
+      if (config[os] !== undefined) {
+        repaired[os] = checkZoomConfig(os, config[os]);
+      }
+    });
+
+    if (config.devices) {
+      const devices: ZoomControllerConfig['devices'] = {};
+      Object.keys(config.devices).forEach((deviceClass) => {
+        if (!(this.DEVICE_CLASSES as readonly string[]).includes(deviceClass)) {
+          report(`devices.${deviceClass}`, `Unknown device class (ignored) - use ${this.DEVICE_CLASSES.join(', ')}`, 'warning');
+          return;
+        }
+        const key = deviceClass as keyof typeof devices;
+        devices[key] = checkZoomConfig(`devices.${deviceClass}`, config.devices![key]);
+      });
+      repaired.devices = devices;
+    }
+
+    if (config.rules) {
+      repaired.rules = config.rules.map((rule, index) => ({
+        ...rule,
+        zoomLevel: checkLevel(`rules[${index}].zoomLevel`, rule.zoomLevel)
+      }));
+    }
+
+    if (config.zoomSteps) {
+      config.zoomSteps.forEach((step, index) => {
+        if (!isLevel(step)) {
+          report(`zoomSteps[${index}]`, `Zoom step must be a positive number, got ${String(step)}; removed`);
+        }
+      });
+      repaired.zoomSteps = config.zoomSteps.filter(isLevel);
+    }
+
+    if (typeof config.watch === 'object' && config.watch !== null && config.watch.debounce !== undefined) {
+      const debounce = config.watch.debounce;
+      if (typeof debounce !== 'number' || !isFinite(debounce) || debounce < 0) {
+        report('watch.debounce', `Must be a non-negative number, got ${String(debounce)}; default used`);
+        repaired.watch = true;
+      }
+    }
+
+    if (config.transition !== undefined) {
+      const duration = config.transition?.duration;
+      if (typeof duration !== 'number' || !isFinite(duration) || duration < 0) {
+        report('transition.duration', `Must be a non-negative number, got ${String(duration)}; transition disabled`);
+        delete repaired.transition;
+      }
+    }
+
+    Object.keys(this.OPTIONS).forEach((key) => {
+      const value = (config as any)[key];
+      const allowed = this.OPTIONS[key];
+      if (value !== undefined && !allowed.includes(value)) {
+        report(key, `Must be one of ${allowed.join(', ')}, got ${String(value)}; default used`);
+        delete (repaired as any)[key];
+      }
+    });
+
+    return { issues, repaired };
   }
 
+  private static registry: Map<string, PresetSource> = new Map(Object.entries(BUILT_IN_PRESETS));
+
   /**
    * Configuration presets for common use cases
+   * Presets added with registerPreset() are available here too
    */
-  static presets = {
-    /**
-     * Only Windows at 80% zoom
-     */
-    windowsOnly: (): ZoomControllerConfig => ({
-      windows: { enabled: true, zoomLevel: 0.8 },
-      macos: { enabled: false, zoomLevel: 1 },
-      linux: { enabled: false, zoomLevel: 1 },
-      android: { enabled: false, zoomLevel: 1 },
-      ios: { enabled: false, zoomLevel: 1 }
-    }),
-
-    /**
-     * Only macOS at 80% zoom
-     */
-    macosOnly: (): ZoomControllerConfig => ({
-      windows: { enabled: false, zoomLevel: 1 },
-      macos: { enabled: true, zoomLevel: 0.8 },
-      linux: { enabled: false, zoomLevel: 1 },
-      android: { enabled: false, zoomLevel: 1 },
-      ios: { enabled: false, zoomLevel: 1 }
-    }),
-
-    /**
-     * All desktop systems at 80%
-     */
-    desktopOnly: (): ZoomControllerConfig => ({
-      windows: { enabled: true, zoomLevel: 0.8 },
-      macos: { enabled: true, zoomLevel: 0.8 },
-      linux: { enabled: true, zoomLevel: 0.8 },
-      android: { enabled: false, zoomLevel: 1 },
-      ios: { enabled: false, zoomLevel: 1 }
-    }),
-
-    /**
-     * All platforms at 80%
-     */
-    allPlatforms: (): ZoomControllerConfig => ({
-      windows: { enabled: true, zoomLevel: 0.8 },
-      macos: { enabled: true, zoomLevel: 0.8 },
-      linux: { enabled: true, zoomLevel: 0.8 },
-      android: { enabled: true, zoomLevel: 0.8 },
-      ios: { enabled: true, zoomLevel: 0.8 }
-    }),
-
-    /**
-     * Mobile only at 80%
-     */
-    mobileOnly: (): ZoomControllerConfig => ({
-      windows: { enabled: false, zoomLevel: 1 },
-      macos: { enabled: false, zoomLevel: 1 },
-      linux: { enabled: false, zoomLevel: 1 },
-      android: { enabled: true, zoomLevel: 0.8 },
-      ios: { enabled: true, zoomLevel: 0.8 }
-    })
-  };
+  static presets: PresetFactories = Object.keys(BUILT_IN_PRESETS).reduce((factories, name) => {
+    factories[name] = () => ConfigManager.getPreset(name);
+    return factories;
+  }, {} as { [name: string]: () => ZoomControllerConfig }) as PresetFactories;
+
+  /**
+   * Register a named preset (replaces an existing preset with the same name)
+   * Presets can build on other presets with `extends`
+   * @param {string} name - Preset name
+   * @param {ZoomControllerConfig | Function} preset - Preset config, or a function returning it
+   */
+  static registerPreset(name: string, preset: PresetSource): void {
+    this.registry.set(name, preset);
+    this.presets[name] = () => this.getPreset(name);
+  }
+
+  /**
+   * Get a preset with its `extends` chain resolved
+   * @param {string} name - Preset name
+   * @returns {ZoomControllerConfig}
+   * @throws {OSZoomConfigError} - For an unknown preset or a circular `extends` chain
+   */
+  static getPreset(name: string): ZoomControllerConfig {
+    return this.expand(this.lookup(name, 'preset'), [name]);
+  }
+
+  /**
+   * Get the names of all registered presets
+   * @returns {string[]}
+   */
+  static getPresetNames(): string[] {
+    return Array.from(this.registry.keys());
+  }
+
+  /**
+   * Deep-merge configs from left to right, e.g. compose(presets.desktopOnly(), overrides)
+   * Nested objects are merged, arrays and other values are replaced, undefined values are skipped.
+   * `extends` is resolved for every config.
+   * @param {...ZoomControllerConfig} configs - Configs, lowest precedence first
+   * @returns {ZoomControllerConfig} - Composed config (not validated - see mergeConfig())
+   * @throws {OSZoomConfigError} - For an unknown preset or a circular `extends` chain
+   */
+  static compose(...configs: Array<ZoomControllerConfig | undefined>): ZoomControllerConfig {
+    return configs.reduce<ZoomControllerConfig>(
+      (composed, config) => (config ? this.deepMerge(composed, this.expand(config, [])) : composed),
+      {}
+    );
+  }
+
+  /**
+   * Compare two configs by value
+   * Object literals and arrays are compared deeply; functions, elements and other objects by identity
+   * @param {ZoomControllerConfig} a - First config
+   * @param {ZoomControllerConfig} b - Second config
+   * @returns {boolean}
+   */
+  static isEqual(a?: ZoomControllerConfig | null, b?: ZoomControllerConfig | null): boolean {
+    return this.isEqualValue(a, b);
+  }
+
+  /**
+   * Deep equality for isEqual()
+   * @private
+   */
+  private static isEqualValue(a: unknown, b: unknown): boolean {
+    if (Object.is(a, b)) {
+      return true;
+    }
+
+    if (Array.isArray(a) && Array.isArray(b)) {
+      return a.length === b.length && a.every((item, index) => this.isEqualValue(item, b[index]));
+    }
+
+    if (!this.isPlainObject(a) || !this.isPlainObject(b)) {
+      return false;
+    }
+
+    const keysA = Object.keys(a);
+    const keysB = Object.keys(b);
+    return keysA.length === keysB.length &&
+           keysA.every((key) => this.isEqualValue((a as any)[key], (b as any)[key]));
+  }
+
+  /**
+   * Resolve the `extends` of a config, parents first
+   * @private
+   */
+  private static expand(config: ZoomControllerConfig, chain: string[]): ZoomControllerConfig {
+    const { extends: parents, ...rest } = config;
+    if (!parents) {
+      return this.deepMerge({}, rest);
+    }
+
+    const bases = (Array.isArray(parents) ? parents : [parents]).map((name) => {
+      if (chain.includes(name)) {
+        throw new OSZoomConfigError([{
+          path: 'extends',
+          message: `Circular preset chain: ${[...chain, name].join(' -> ')}`,
+          severity: 'error'
+        }]);
+      }
+      return this.expand(this.lookup(name, 'extends'), [...chain, name]);
+    });
+
+    return [...bases, rest].reduce<ZoomControllerConfig>((merged, part) => this.deepMerge(merged, part), {});
+  }
+
+  /**
+   * Find a registered preset
+   * @private
+   */
+  private static lookup(name: string, path: string): ZoomControllerConfig {
+    const preset = this.registry.get(name);
+    if (!preset) {
+      throw new OSZoomConfigError([{ path, message: `Unknown preset '${name}'`, severity: 'error' }]);
+    }
+    return typeof preset === 'function' ? preset() : preset;
+  }
+
+  /**
+   * Merge two configs into a new object
+   * Nested object literals are copied, so presets cannot be changed through a result
+   * @private
+   */
+  private static deepMerge<T extends object>(target: T, source: T): T {
+    const merged: any = { ...target };
+
+    Object.keys(source).forEach((key) => {
+      const value = (source as any)[key];
+      if (value === undefined) {
+        return;
+      }
+
+      const current = merged[key];
+      merged[key] = this.isPlainObject(value) && !this.REPLACED_KEYS.includes(key)
+        ? this.deepMerge(this.isPlainObject(current) ? current : {}, value)
+        : value;
+    });
+
+    return merged;
+  }
+
+  /**
+   * Check for an object literal (not an array, element, storage instance...)
+   * @private
+   */
+  private static isPlainObject(value: unknown): value is object {
+    if (typeof value !== 'object' || value === null) {
+      return false;
+    }
+    const prototype = Object.getPrototypeOf(value);
+    return prototype === Object.prototype || prototype === null;
+  }
 }
 
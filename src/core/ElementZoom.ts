@@ -0,0 +1,80 @@
+import { DesignTokenConfig, ZoomStrategyName } from '../types';
+import { CSSVariables } from '../utils/cssVariables';
+import { ZoomStrategy, createZoomStrategy } from './ZoomStrategies';
+
+/**
+ * ElementZoom - Zooms a single element, for framework directives (v-zoom, [osZoom])
+ * 'css-variables' sets a scoped scale factor that composes with ancestor scopes;
+ * the other strategies scale the element directly
+ */
+export class ElementZoom {
+  private element: HTMLElement;
+  private cssVariables: CSSVariables;
+  private applied: { zoomLevel: number; name: ZoomStrategyName; strategy: ZoomStrategy | null } | null = null;
+
+  /**
+   * @param {HTMLElement} element - Element to zoom
+   * @param {DesignTokenConfig} [tokens] - Token config (decides the scale factor variable name)
+   */
+  constructor(element: HTMLElement, tokens?: DesignTokenConfig) {
+    this.element = element;
+    // One instance for apply and clear - scale factors are tracked per instance
+    this.cssVariables = new CSSVariables(element, tokens);
+  }
+
+  /**
+   * Zoom the element (no-op when the level and strategy did not change)
+   * @param {number} zoomLevel - Zoom level
+   * @param {ZoomStrategyName} [name] - Strategy (default: 'css-variables')
+   */
+  apply(zoomLevel: number, name: ZoomStrategyName = 'css-variables'): void {
+    if (this.applied && this.applied.zoomLevel === zoomLevel && this.applied.name === name) {
+      return;
+    }
+
+    // Strategies remember the inline styles they overwrite, so the instance that zoomed must also reset
+    this.clear();
+    const strategy = createZoomStrategy(name);
+    if (strategy) {
+      strategy.apply(this.element, zoomLevel);
+    } else {
+      this.cssVariables.setScaleFactor(zoomLevel);
+    }
+    this.applied = { zoomLevel, name, strategy };
+  }
+
+  /**
+   * Undo the zoom
+   */
+  clear(): void {
+    if (!this.applied) {
+      return;
+    }
+
+    if (this.applied.strategy) {
+      this.applied.strategy.reset(this.element);
+    } else {
+      this.cssVariables.clearScaleFactor();
+    }
+    this.applied = null;
+  }
+
+  /**
+   * Inline styles that render a zoom level on the server, before any script runs
+   * Scopes are not composed here - nested levels are multiplied once the client applies them
+   * @param {number} zoomLevel - Zoom level
+   * @param {ZoomStrategyName} [name] - Strategy (default: 'css-variables')
+   * @param {DesignTokenConfig} [tokens] - Token config (decides the scale factor variable name)
+   * @returns {Object} - Style properties (empty for strategies that need the DOM)
+   */
+  static getServerStyle(
+    zoomLevel: number,
+    name: ZoomStrategyName = 'css-variables',
+    tokens?: DesignTokenConfig
+  ): { [property: string]: string } {
+    if (name === 'css-variables') {
+      return { [new CSSVariables(undefined, tokens).getScaleFactorVariable()]: String(zoomLevel) };
+    }
+    return name === 'zoom' ? { zoom: String(zoomLevel) } : {};
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * @jest-environment jsdom
+ */
+import { KeyboardShortcuts, KeyboardShortcutHandlers } from './KeyboardShortcuts';
+import { ZoomManager } from './ZoomManager';
+import { ConfigManager } from './ConfigManager';
+
+function press(key: string, modifiers: Partial<Pick<KeyboardEvent, 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>> = {}): KeyboardEvent {
+  const event = new KeyboardEvent('keydown', { key, cancelable: true, ...modifiers });
+  window.dispatchEvent(event);
+  return event;
+}
+
+describe('KeyboardShortcuts.parse', () => {
+  it("maps 'Mod' to Cmd on Apple platforms and Ctrl elsewhere", () => {
+    expect(KeyboardShortcuts.parse('Mod+=', 'macos')).toMatchObject({ key: '=', meta: true, ctrl: false });
+    expect(KeyboardShortcuts.parse('Mod+=', 'windows')).toMatchObject({ key: '=', meta: false, ctrl: true });
+  });
+
+  it("reads a trailing '++' as the plus key", () => {
+    expect(KeyboardShortcuts.parse('Mod++', 'linux')).toMatchObject({ key: '+', ctrl: true });
+  });
+
+  it('only checks Shift when the chord names it', () => {
+    expect(KeyboardShortcuts.parse('Alt+Shift+Z', 'linux')).toMatchObject({ key: 'z', alt: true, shift: true });
+    expect(KeyboardShortcuts.parse('Ctrl+-', 'linux').shift).toBeUndefined();
+  });
+});
+
+describe('KeyboardShortcuts', () => {
+  let handlers: { [K in keyof KeyboardShortcutHandlers]-?: jest.Mock };
+  let shortcuts: KeyboardShortcuts;
+
+  beforeEach(() => {
+    handlers = { zoomIn: jest.fn(), zoomOut: jest.fn(), reset: jest.fn(), enabled: jest.fn(() => true) };
+  });
+
+  afterEach(() => {
+    shortcuts.detach();
+  });
+
+  it('runs the action bound to a chord and prevents the browser zoom', () => {
+    shortcuts = new KeyboardShortcuts('windows', handlers);
+    shortcuts.attach();
+
+    expect(press('=', { ctrlKey: true }).defaultPrevented).toBe(true);
+    press('+', { ctrlKey: true, shiftKey: true });
+    press('-', { ctrlKey: true });
+    press('0', { ctrlKey: true });
+    expect(handlers.zoomIn).toHaveBeenCalledTimes(2);
+    expect(handlers.zoomOut).toHaveBeenCalledTimes(1);
+    expect(handlers.reset).toHaveBeenCalledTimes(1);
+  });
+
+  it('ignores other modifiers and keys', () => {
+    shortcuts = new KeyboardShortcuts('macos', handlers);
+    shortcuts.attach();
+
+    expect(press('=', { ctrlKey: true }).defaultPrevented).toBe(false);
+    press('=');
+    press('1', { metaKey: true });
+    expect(handlers.zoomIn).not.toHaveBeenCalled();
+  });
+
+  it('leaves the browser zoom alone while disabled', () => {
+    handlers.enabled.mockReturnValue(false);
+    shortcuts = new KeyboardShortcuts('windows', handlers);
+    shortcuts.attach();
+
+    expect(press('=', { ctrlKey: true }).defaultPrevented).toBe(false);
+    expect(handlers.zoomIn).not.toHaveBeenCalled();
+  });
+
+  it('uses configured chords and can keep the default action', () => {
+    shortcuts = new KeyboardShortcuts('linux', handlers, { zoomIn: ['Alt+ArrowUp'], preventDefault: false });
+    shortcuts.attach();
+
+    expect(press('ArrowUp', { altKey: true }).defaultPrevented).toBe(false);
+    press('=', { ctrlKey: true });
+    expect(handlers.zoomIn).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops listening once detached', () => {
+    shortcuts = new KeyboardShortcuts('windows', handlers);
+    shortcuts.attach();
+    shortcuts.detach();
+    press('=', { ctrlKey: true });
+    expect(handlers.zoomIn).not.toHaveBeenCalled();
+  });
+});
+
+describe('ZoomManager with keyboard: true', () => {
+  it('steps the zoom for an enabled OS only', () => {
+    const manager = new ZoomManager(ConfigManager.mergeConfig({
+      keyboard: true,
+      strategy: 'css-variables',
+      windows: { enabled: true, zoomLevel: 0.9 }
+    }));
+
+    manager.attachKeyboard('windows');
+    press('=', { ctrlKey: true });
+    expect(manager.getZoom('windows')).toBe(1);
+    press('0', { ctrlKey: true });
+    expect(manager.getZoom('windows')).toBe(0.9);
+
+    manager.attachKeyboard('linux');
+    expect(press('=', { ctrlKey: true }).defaultPrevented).toBe(false);
+    expect(manager.getState().currentZoom).toBe(0.9);
+    manager.destroy();
+  });
+});
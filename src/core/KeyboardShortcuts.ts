@@ -0,0 +1,120 @@
+import { OS, KeyboardShortcutConfig } from '../types';
+
+/**
+ * Actions that can be bound to keyboard shortcuts
+ */
+export interface KeyboardShortcutHandlers {
+  zoomIn: () => void;
+  zoomOut: () => void;
+  reset: () => void;
+  enabled?: () => boolean; // While false, chords are ignored and the browser's own zoom is left alone
+}
+
+interface ParsedChord {
+  key: string;
+  ctrl: boolean;
+  meta: boolean;
+  alt: boolean;
+  shift: boolean | undefined; // undefined = Shift state is ignored
+}
+
+/**
+ * KeyboardShortcuts - Binds zoom in/out/reset to keyboard chords
+ * Follows OS modifier conventions: 'Mod' means Cmd on macOS/iOS and Ctrl everywhere else
+ */
+export class KeyboardShortcuts {
+  static readonly DEFAULT_SHORTCUTS: Required<Omit<KeyboardShortcutConfig, 'preventDefault'>> = {
+    zoomIn: ['Mod+=', 'Mod++'],
+    zoomOut: ['Mod+-'],
+    reset: ['Mod+0']
+  };
+
+  private bindings: Array<{ chord: ParsedChord; action: Exclude<keyof KeyboardShortcutHandlers, 'enabled'> }> = [];
+  private handlers: KeyboardShortcutHandlers;
+  private preventDefault: boolean;
+  private attached = false;
+
+  constructor(os: OS, handlers: KeyboardShortcutHandlers, config: KeyboardShortcutConfig = {}) {
+    this.handlers = handlers;
+    this.preventDefault = config.preventDefault !== false;
+
+    (['zoomIn', 'zoomOut', 'reset'] as const).forEach((action) => {
+      const chords = config[action] || KeyboardShortcuts.DEFAULT_SHORTCUTS[action];
+      chords.forEach((chord) => {
+        this.bindings.push({ chord: KeyboardShortcuts.parse(chord, os), action });
+      });
+    });
+  }
+
+  /**
+   * Start listening for keyboard shortcuts
+   */
+  attach(): void {
+    // SSR-safe: check if window exists
+    if (typeof window === 'undefined' || this.attached) {
+      return;
+    }
+
+    window.addEventListener('keydown', this.handleKeyDown);
+    this.attached = true;
+  }
+
+  /**
+   * Stop listening for keyboard shortcuts
+   */
+  detach(): void {
+    if (typeof window === 'undefined' || !this.attached) {
+      return;
+    }
+
+    window.removeEventListener('keydown', this.handleKeyDown);
+    this.attached = false;
+  }
+
+  /**
+   * Parse a chord such as 'Mod+Shift+=' for the given OS
+   * @param {string} chord - Chord definition
+   * @param {OS} os - Operating system (decides what 'Mod' means)
+   * @returns {ParsedChord}
+   */
+  static parse(chord: string, os: OS): ParsedChord {
+    // A trailing '++' means the '+' key itself
+    const endsWithPlus = chord === '+' || chord.endsWith('++');
+    const parts = endsWithPlus ? chord.slice(0, -2).split('+').filter(Boolean) : chord.split('+');
+    const key = endsWithPlus ? '+' : parts.pop() || '';
+    const modifiers = parts.map((part) => part.trim().toLowerCase());
+    const isApple = os === 'macos' || os === 'ios' || os === 'ipados';
+    const hasMod = modifiers.includes('mod');
+
+    return {
+      key: key.toLowerCase(),
+      ctrl: modifiers.includes('ctrl') || modifiers.includes('control') || (hasMod && !isApple),
+      meta: modifiers.includes('meta') || modifiers.includes('cmd') || (hasMod && isApple),
+      alt: modifiers.includes('alt') || modifiers.includes('option'),
+      shift: modifiers.includes('shift') ? true : undefined
+    };
+  }
+
+  /**
+   * Handle keydown events
+   * @private
+   */
+  private handleKeyDown = (event: KeyboardEvent): void => {
+    const binding = this.bindings.find(({ chord }) =>
+      chord.key === event.key.toLowerCase() &&
+      chord.ctrl === event.ctrlKey &&
+      chord.meta === event.metaKey &&
+      chord.alt === event.altKey &&
+      (chord.shift === undefined || chord.shift === event.shiftKey)
+    );
+
+    if (!binding || this.handlers.enabled?.() === false) {
+      return;
+    }
+
+    if (this.preventDefault) {
+      event.preventDefault();
+    }
+    this.handlers[binding.action]();
+  };
+}
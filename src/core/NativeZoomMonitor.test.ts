@@ -0,0 +1,116 @@
+/**
+ * @jest-environment jsdom
+ */
+import { NativeZoomMonitor } from './NativeZoomMonitor';
+import { ZoomManager } from './ZoomManager';
+import { ConfigManager } from './ConfigManager';
+
+// Window geometry as a desktop browser reports it
+function setWindow(values: { devicePixelRatio?: number; outerWidth?: number; innerWidth?: number }): void {
+  Object.keys(values).forEach((key) => {
+    Object.defineProperty(window, key, { value: (values as any)[key], configurable: true });
+  });
+}
+
+function stubPointer(fine: boolean): void {
+  window.matchMedia = ((query: string) => ({
+    matches: query.includes('pointer') ? fine : false,
+    addEventListener: () => {},
+    removeEventListener: () => {}
+  })) as any;
+}
+
+const resize = () => window.dispatchEvent(new Event('resize'));
+
+describe('NativeZoomMonitor', () => {
+  let monitor: NativeZoomMonitor;
+  let onChange: jest.Mock;
+
+  beforeEach(() => {
+    stubPointer(true);
+    setWindow({ devicePixelRatio: 1, outerWidth: 1216, innerWidth: 1200 });
+    onChange = jest.fn();
+    monitor = new NativeZoomMonitor(onChange);
+  });
+
+  afterEach(() => {
+    monitor.stop();
+  });
+
+  it('reads 100% on an unzoomed page', () => {
+    expect(monitor.start()).toEqual({ nativeZoom: 1, pinchZoom: 1 });
+  });
+
+  it('reads browser zoom that was set before the page loaded', () => {
+    setWindow({ devicePixelRatio: 1.25, outerWidth: 1500, innerWidth: 1200 });
+    expect(monitor.start().nativeZoom).toBe(1.25);
+  });
+
+  it('tracks zoom changes relative to a zoomed first reading', () => {
+    setWindow({ devicePixelRatio: 1.25, outerWidth: 1500, innerWidth: 1200 });
+    monitor.start();
+
+    setWindow({ devicePixelRatio: 1.5, innerWidth: 1000 });
+    resize();
+    expect(onChange).toHaveBeenLastCalledWith({ nativeZoom: 1.5, pinchZoom: 1 });
+
+    setWindow({ devicePixelRatio: 1, innerWidth: 1500 });
+    resize();
+    expect(onChange).toHaveBeenLastCalledWith({ nativeZoom: 1, pinchZoom: 1 });
+  });
+
+  it('does not count a move to a monitor with another DPR as zoom', () => {
+    monitor.start();
+    setWindow({ devicePixelRatio: 2 });
+    resize();
+    expect(onChange).not.toHaveBeenCalled();
+
+    // Zooming on the new monitor is measured against its DPR
+    setWindow({ devicePixelRatio: 2.5, innerWidth: 960 });
+    resize();
+    expect(onChange).toHaveBeenLastCalledWith({ nativeZoom: 1.25, pinchZoom: 1 });
+  });
+
+  it('starts at 100% without a fine pointer and follows DPR from there', () => {
+    stubPointer(false);
+    setWindow({ devicePixelRatio: 3 });
+    expect(monitor.start().nativeZoom).toBe(1);
+
+    setWindow({ devicePixelRatio: 3.3 });
+    resize();
+    expect(onChange).toHaveBeenLastCalledWith({ nativeZoom: 1.1, pinchZoom: 1 });
+  });
+
+  it('snaps estimates to browser zoom levels', () => {
+    expect(NativeZoomMonitor.snap(1.013)).toBe(1);
+    expect(NativeZoomMonitor.snap(1.24)).toBe(1.25);
+    expect(NativeZoomMonitor.snap(1.4)).toBe(1.4);
+  });
+
+  it('stops reporting after stop()', () => {
+    monitor.start();
+    monitor.stop();
+    setWindow({ devicePixelRatio: 1.5, innerWidth: 800 });
+    resize();
+    expect(onChange).not.toHaveBeenCalled();
+  });
+});
+
+describe("ZoomManager with nativeZoom: 'compensate'", () => {
+  beforeEach(() => {
+    stubPointer(true);
+  });
+
+  it('divides out browser zoom that was set before the page loaded', () => {
+    setWindow({ devicePixelRatio: 1.25, outerWidth: 1500, innerWidth: 1200 });
+    const manager = new ZoomManager(ConfigManager.mergeConfig({
+      nativeZoom: 'compensate',
+      windows: { enabled: true, zoomLevel: 0.8 }
+    }));
+
+    manager.apply('windows');
+    expect(manager.getState()).toMatchObject({ nativeZoom: 1.25, currentZoom: 0.8 });
+    expect(document.documentElement.style.getPropertyValue('--scale-factor')).toBe('0.64');
+    manager.destroy();
+  });
+});
@@ -0,0 +1,162 @@
+import { NativeZoomReading } from '../types';
+
+/**
+ * NativeZoomMonitor - Estimates browser zoom (Ctrl/Cmd +/-) and tracks pinch zoom
+ *
+ * Browsers do not expose their zoom level, so it is estimated:
+ * - at start: outerWidth / innerWidth on desktop (fine pointer), which also catches a page
+ *   loaded with browser zoom already set; elsewhere zoom is assumed to start at 100%
+ * - afterwards: devicePixelRatio changes relative to that first reading. The width ratio
+ *   cross-checks them: if DPR moves while the ratio stays put, the window went to a monitor
+ *   with a different DPR and the baseline follows.
+ * Pinch zoom is read from visualViewport.scale.
+ */
+export class NativeZoomMonitor {
+  // Zoom levels offered by browsers - estimates close to one of them snap to it
+  static readonly BROWSER_ZOOM_LEVELS = [0.25, 0.33, 0.5, 0.67, 0.75, 0.8, 0.9, 1, 1.1, 1.25, 1.5, 1.75, 2, 2.5, 3, 4, 5];
+  private static readonly SNAP_TOLERANCE = 0.03;
+
+  private onChange: (reading: NativeZoomReading) => void;
+  private reading: NativeZoomReading = { nativeZoom: 1, pinchZoom: 1 };
+  private baseDpr = 1;
+  private lastDpr = 1;
+  private lastWidthRatio: number | null = null;
+  private dprQuery: MediaQueryList | null = null;
+  private watching = false;
+
+  /**
+   * @param {Function} onChange - Called with the new reading when browser or pinch zoom changes
+   */
+  constructor(onChange: (reading: NativeZoomReading) => void) {
+    this.onChange = onChange;
+  }
+
+  /**
+   * Start monitoring (no-op during SSR)
+   * @returns {NativeZoomReading} - Reading at start
+   */
+  start(): NativeZoomReading {
+    if (typeof window === 'undefined') {
+      return this.read();
+    }
+
+    this.stop();
+    this.lastDpr = window.devicePixelRatio || 1;
+    this.lastWidthRatio = this.widthRatio();
+    // DPR that corresponds to 100% browser zoom on this display
+    this.baseDpr = this.lastDpr / NativeZoomMonitor.snap(this.lastWidthRatio ?? 1);
+    this.reading = this.measure();
+
+    window.addEventListener('resize', this.update);
+    window.visualViewport?.addEventListener('resize', this.update);
+    this.watchDevicePixelRatio();
+    this.watching = true;
+
+    return this.read();
+  }
+
+  /**
+   * Stop monitoring
+   */
+  stop(): void {
+    if (!this.watching) {
+      return;
+    }
+
+    window.removeEventListener('resize', this.update);
+    window.visualViewport?.removeEventListener('resize', this.update);
+    this.dprQuery?.removeEventListener('change', this.handleDprChange);
+    this.dprQuery = null;
+    this.watching = false;
+  }
+
+  /**
+   * Get the latest reading
+   * @returns {NativeZoomReading}
+   */
+  read(): NativeZoomReading {
+    return { ...this.reading };
+  }
+
+  /**
+   * Snap an estimate to the nearest browser zoom level when it is close enough
+   * @param {number} estimate - Raw estimate
+   * @returns {number} - Snapped level, or the estimate rounded to 2 decimals
+   */
+  static snap(estimate: number): number {
+    const nearest = NativeZoomMonitor.BROWSER_ZOOM_LEVELS.reduce((best, level) =>
+      Math.abs(level - estimate) < Math.abs(best - estimate) ? level : best
+    );
+    return Math.abs(nearest - estimate) / nearest <= NativeZoomMonitor.SNAP_TOLERANCE
+      ? nearest
+      : Math.round(estimate * 100) / 100;
+  }
+
+  /**
+   * Measure the current browser and pinch zoom
+   * @private
+   */
+  private measure(): NativeZoomReading {
+    const dpr = window.devicePixelRatio || 1;
+    const widthRatio = this.widthRatio();
+
+    if (dpr !== this.lastDpr && widthRatio !== null && this.lastWidthRatio !== null &&
+        Math.abs(widthRatio - this.lastWidthRatio) / this.lastWidthRatio <= NativeZoomMonitor.SNAP_TOLERANCE) {
+      // DPR changed but the page did not rescale: a display change, not browser zoom
+      this.baseDpr = dpr / this.reading.nativeZoom;
+    }
+    this.lastDpr = dpr;
+    this.lastWidthRatio = widthRatio;
+
+    return {
+      nativeZoom: NativeZoomMonitor.snap(dpr / this.baseDpr),
+      pinchZoom: Math.round((window.visualViewport?.scale ?? 1) * 100) / 100
+    };
+  }
+
+  /**
+   * outerWidth / innerWidth on desktop (fine pointer), null where it is meaningless
+   * @private
+   */
+  private widthRatio(): number | null {
+    const { outerWidth, innerWidth } = window;
+    const finePointer = typeof window.matchMedia === 'function' && window.matchMedia('(pointer: fine)').matches;
+    return finePointer && outerWidth > 0 && innerWidth > 0 ? outerWidth / innerWidth : null;
+  }
+
+  /**
+   * Re-measure and report a changed reading
+   * @private
+   */
+  private update = (): void => {
+    const next = this.measure();
+    if (next.nativeZoom === this.reading.nativeZoom && next.pinchZoom === this.reading.pinchZoom) {
+      return;
+    }
+    this.reading = next;
+    this.onChange(this.read());
+  };
+
+  /**
+   * Watch the current DPR - browser zoom changes it, and the query only matches one value,
+   * so it is renewed after every change
+   * @private
+   */
+  private watchDevicePixelRatio(): void {
+    if (typeof window.matchMedia !== 'function') {
+      return;
+    }
+    this.dprQuery?.removeEventListener('change', this.handleDprChange);
+    this.dprQuery = window.matchMedia(`(resolution: ${window.devicePixelRatio || 1}dppx)`);
+    this.dprQuery.addEventListener('change', this.handleDprChange);
+  }
+
+  /**
+   * Handle a DPR change
+   * @private
+   */
+  private handleDprChange = (): void => {
+    this.watchDevicePixelRatio();
+    this.update();
+  };
+}
@@ -0,0 +1,219 @@
+/**
+ * @jest-environment jsdom
+ */
+import { OSDetector } from './OSDetector';
+import { OSZoom } from '../adapters/VanillaAdapter';
+import { DEVICE_FIXTURES } from '../fixtures/devices';
+import { EnvironmentSnapshot } from '../types';
+
+describe('OSDetector.detectFrom', () => {
+  describe.each(DEVICE_FIXTURES.map((fixture) => [fixture.name, fixture] as const))('%s', (_name, fixture) => {
+    const result = OSDetector.detectFrom(fixture.environment);
+
+    it('detects the expected OS, device class and browser', () => {
+      expect(result).toMatchObject(fixture.expected);
+    });
+
+    it('reports a platform match with high confidence', () => {
+      expect(result.signals).toEqual(expect.arrayContaining([expect.stringMatching(/^platform:/)]));
+      expect(result.confidence).toBeGreaterThanOrEqual(0.85);
+      expect(result.confidence).toBeLessThanOrEqual(1);
+    });
+  });
+
+  it('does not mutate the snapshot', () => {
+    const environment = DEVICE_FIXTURES[0].environment;
+    const copy = JSON.parse(JSON.stringify(environment));
+    OSDetector.detectFrom(environment);
+    expect(environment).toEqual(copy);
+  });
+
+  describe('without a platform signal', () => {
+    // A desktop fixture with every identifying value removed
+    const blank: EnvironmentSnapshot = {
+      ...DEVICE_FIXTURES[0].environment,
+      platform: '',
+      userAgentDataPlatform: '',
+      brands: [],
+      globals: { ...DEVICE_FIXTURES[0].environment.globals, chrome: false }
+    };
+
+    it('falls back to a low-confidence guess', () => {
+      const result = OSDetector.detectFrom(blank);
+      expect(result.os).not.toBe('unknown');
+      expect(result.confidence).toBeLessThan(0.5);
+    });
+
+    it('keeps the device unknown with fallback: false', () => {
+      expect(OSDetector.detectFrom(blank, { fallback: false }).os).toBe('unknown');
+    });
+  });
+});
+
+describe('OSDetector.applyClientHints', () => {
+  const base = { os: 'windows' as const, isMobile: false, confidence: 0.9, signals: ['platform:win32'] };
+
+  it('tells Windows 11 from Windows 10 by platformVersion', () => {
+    expect(OSDetector.applyClientHints(base, { platform: 'Windows', platformVersion: '15.0.0' }).version).toBe('11');
+    expect(OSDetector.applyClientHints(base, { platform: 'Windows', platformVersion: '10.0.0' }).version).toBe('10');
+  });
+
+  it('keeps other platform versions as reported', () => {
+    const result = OSDetector.applyClientHints({ ...base, os: 'macos' }, { platform: 'macOS', platformVersion: '14.2.1' });
+    expect(result).toMatchObject({ os: 'macos', version: '14.2.1' });
+  });
+
+  it('marks results that carry the high-entropy version', () => {
+    const hinted = OSDetector.applyClientHints(base, { platform: 'Windows', platformVersion: '15.0.0', model: '' });
+    expect(hinted.signals).toEqual(['platform:win32', 'clientHints:windows', OSDetector.HIGH_ENTROPY_SIGNAL]);
+    expect(hinted.confidence).toBe(0.95);
+
+    const lowEntropy = OSDetector.applyClientHints(base, { platform: 'Windows', mobile: false });
+    expect(lowEntropy.signals).not.toContain(OSDetector.HIGH_ENTROPY_SIGNAL);
+  });
+
+  it('takes the platform and mobile flag from the hints', () => {
+    const result = OSDetector.applyClientHints({ ...base, os: 'linux' }, { platform: 'Android', mobile: true, model: 'Pixel 8' });
+    expect(result).toMatchObject({ os: 'android', isMobile: true, model: 'Pixel 8' });
+  });
+});
+
+describe('OSDetector device taxonomy', () => {
+  const pixel = DEVICE_FIXTURES.find((fixture) => fixture.name.startsWith('Pixel'))!.environment;
+
+  // A touch phone that names no platform and has no iOS or Android features
+  const anonymousPhone: EnvironmentSnapshot = {
+    ...pixel,
+    platform: '',
+    userAgentDataPlatform: '',
+    brands: [],
+    globals: { ...pixel.globals, chrome: false }
+  };
+
+  it('tells tablets from phones by the shorter screen side', () => {
+    expect(OSDetector.detectFrom(pixel).deviceClass).toBe('phone');
+    const tablet = { ...pixel, screen: { width: 800, height: 1280 }, viewport: { width: 800, height: 1200 } };
+    expect(OSDetector.detectFrom(tablet)).toMatchObject({ os: 'android', deviceClass: 'tablet' });
+  });
+
+  it('only guesses Android for an unidentified touch device when fallbacks are on', () => {
+    expect(OSDetector.detectFrom(anonymousPhone)).toMatchObject({ os: 'android', isMobile: true });
+    expect(OSDetector.detectFrom(anonymousPhone, { fallback: false })).toMatchObject({ os: 'unknown', deviceClass: 'phone' });
+  });
+
+  it('takes chromeos from the Client Hints platform', () => {
+    const result = OSDetector.detectFrom({ ...DEVICE_FIXTURES[0].environment, platform: 'Linux x86_64', userAgentDataPlatform: 'Chrome OS' });
+    expect(result.os).toBe('chromeos');
+  });
+});
+
+describe('OSDetector.detectBrowserFromBrands', () => {
+  const chromium = (brand: string, version: string) => [
+    { brand: 'Not_A Brand', version: '8' },
+    { brand: 'Chromium', version: '120' },
+    { brand, version }
+  ];
+
+  it('picks the most specific brand over Chromium, whatever the order', () => {
+    expect(OSDetector.detectBrowserFromBrands(chromium('Microsoft Edge', '120'))).toEqual({ browser: 'Edge', browserVersion: '120', engine: 'Blink' });
+    expect(OSDetector.detectBrowserFromBrands(chromium('Opera GX', '106').reverse())?.browser).toBe('Opera');
+    expect(OSDetector.detectBrowserFromBrands(chromium('Google Chrome', '120'))?.browser).toBe('Chrome');
+  });
+
+  it('reports only the major version', () => {
+    expect(OSDetector.detectBrowserFromBrands([{ brand: 'Samsung Internet', version: '23.0.1.1' }])?.browserVersion).toBe('23');
+  });
+
+  it('falls back to Chromium and ignores unknown brands', () => {
+    expect(OSDetector.detectBrowserFromBrands(chromium('Vivaldi', '6'))?.browser).toBe('Chromium');
+    expect(OSDetector.detectBrowserFromBrands([{ brand: 'Not_A Brand', version: '8' }])).toBeUndefined();
+    expect(OSDetector.detectBrowserFromBrands([])).toBeUndefined();
+  });
+
+  it('reports Chromium versions from brands and none for Firefox or Safari', () => {
+    const byName = (prefix: string) => OSDetector.detectFrom(DEVICE_FIXTURES.find((fixture) => fixture.name.startsWith(prefix))!.environment);
+    expect(byName('Windows 11 desktop - Chrome').browserVersion).toBe('120');
+    expect(byName('Windows 11 laptop - Firefox').browserVersion).toBeUndefined();
+    expect(byName('MacBook Pro 14"').browserVersion).toBeUndefined();
+  });
+});
+
+describe('OSDetector.detect cache', () => {
+  const mediaListeners = new Map<string, Set<() => void>>();
+  let detectFrom: jest.SpyInstance;
+
+  beforeEach(() => {
+    mediaListeners.clear();
+    window.matchMedia = ((media: string) => ({
+      matches: false,
+      addEventListener: (_type: string, listener: () => void) => {
+        mediaListeners.set(media, (mediaListeners.get(media) || new Set()).add(listener));
+      },
+      removeEventListener: (_type: string, listener: () => void) => {
+        mediaListeners.get(media)?.delete(listener);
+      }
+    })) as any;
+    OSDetector.invalidate();
+    detectFrom = jest.spyOn(OSDetector, 'detectFrom');
+  });
+
+  afterEach(() => {
+    detectFrom.mockRestore();
+    OSDetector.invalidate();
+  });
+
+  it('detects once and hands every caller the same frozen result', () => {
+    const result = OSDetector.detect();
+    expect(OSDetector.detect()).toBe(result);
+    OSDetector.isOS('windows');
+    OSDetector.isMobile();
+    OSDetector.getBrowser();
+
+    expect(detectFrom).toHaveBeenCalledTimes(1);
+    expect(Object.isFrozen(result)).toBe(true);
+    expect(Object.isFrozen(result.signals)).toBe(true);
+  });
+
+  it('caches results with and without fallbacks separately', () => {
+    const withFallback = OSDetector.detect();
+    const withoutFallback = OSDetector.detect({ fallback: false });
+    expect(withoutFallback).not.toBe(withFallback);
+    expect(OSDetector.detect({ fallback: false })).toBe(withoutFallback);
+    expect(detectFrom).toHaveBeenCalledTimes(2);
+  });
+
+  it('detects again after invalidate()', () => {
+    const result = OSDetector.detect();
+    OSDetector.invalidate();
+    expect(OSDetector.detect()).not.toBe(result);
+    expect(detectFrom).toHaveBeenCalledTimes(2);
+  });
+
+  it('invalidates itself on resize and on pointer or DPR changes', () => {
+    const first = OSDetector.detect();
+    window.dispatchEvent(new Event('resize'));
+    const second = OSDetector.detect();
+    expect(second).not.toBe(first);
+
+    mediaListeners.get('(pointer: coarse)')!.forEach((listener) => listener());
+    const third = OSDetector.detect();
+    expect(third).not.toBe(second);
+
+    mediaListeners.get(`(resolution: ${window.devicePixelRatio || 1}dppx)`)!.forEach((listener) => listener());
+    expect(OSDetector.detect()).not.toBe(third);
+    expect(detectFrom).toHaveBeenCalledTimes(4);
+  });
+
+  it('stops listening while nothing is cached', () => {
+    OSDetector.detect();
+    OSDetector.invalidate();
+    expect(mediaListeners.get('(pointer: coarse)')!.size).toBe(0);
+  });
+
+  it("backs OSZoom's getOSInfo()", () => {
+    const zoom = new OSZoom({ strategy: 'css-variables' });
+    expect(zoom.getOSInfo()).toBe(OSDetector.detect());
+    expect(zoom.getOSInfo()).toBe(zoom.getOSInfo());
+    zoom.destroy();
+  });
+});
@@ -1,239 +1,532 @@
-import { OS, OSDetectionResult } from '../types';
+import {
+  OS,
+  OSDetectionResult,
+  ClientHints,
+  EnvironmentSnapshot,
+  DetectionOptions,
+  DeviceClass,
+  BrowserBrand
+} from '../types';
+
+/**
+ * Browser part of a detection result
+ */
+type BrowserInfo = Pick<OSDetectionResult, 'browser' | 'browserVersion' | 'engine'>;
 
 /**
  * OSDetector - Detects operating system using feature analysis
  * Completely avoids user agent parsing - uses browser features and APIs instead
  */
 export class OSDetector {
+  // Client Hints brand -> browser name, most specific first (every Chromium browser also lists 'Chromium')
+  private static readonly BRANDS: Array<[string, string]> = [
+    ['Microsoft Edge', 'Edge'],
+    ['Opera GX', 'Opera'],
+    ['Opera', 'Opera'],
+    ['Samsung Internet', 'Samsung Internet'],
+    ['Brave', 'Brave'],
+    ['Google Chrome', 'Chrome'],
+    ['Chromium', 'Chromium']
+  ];
+
+  // Signal of a result whose OS version came from high-entropy Client Hints (platformVersion)
+  static readonly HIGH_ENTROPY_SIGNAL = 'clientHints:platformVersion';
+
+  // Results of detect(), one per fallback setting - cleared by invalidate()
+  private static cache: Map<boolean, OSDetectionResult> = new Map();
+  // Media queries whose change invalidates the cache (pointer and the current DPR)
+  private static invalidationQueries: MediaQueryList[] = [];
+  private static listening = false;
+
   /**
    * Detect operating system using feature analysis (no user agent parsing)
-   * Uses browser capabilities, APIs, and platform features to determine OS
+   * Uses browser capabilities, APIs, and platform features to determine OS.
+   * Runs once: later calls return the same cached object until invalidate() or a change of
+   * screen size, orientation, DPR or pointer type. The object is frozen, as every caller shares it.
+   * @param {DetectionOptions} [options] - Detection options
    * @returns {OSDetectionResult} - Detected OS information
    */
-  static detect(): OSDetectionResult {
+  static detect(options: DetectionOptions = {}): OSDetectionResult {
+    const fallback = options.fallback !== false;
+    const cached = this.cache.get(fallback);
+    if (cached) {
+      return cached;
+    }
+
+    const environment = this.snapshot();
+
     // Check if running in browser environment (SSR-safe)
-    if (typeof window === 'undefined' || typeof navigator === 'undefined') {
+    if (!environment) {
       // Return default for server-side rendering
       return {
         os: 'unknown',
         isMobile: false,
-        browser: undefined
+        browser: undefined,
+        confidence: 0,
+        signals: []
       };
     }
-    
-    // Use feature-based detection (no user agent parsing)
-    const osInfo = this.detectFromFeatures();
-    
+
+    const detected = this.detectFrom(environment, options);
+    const result = Object.freeze({
+      ...detected,
+      ...(detected.signals && { signals: Object.freeze([...detected.signals]) as string[] })
+    });
+    this.cache.set(fallback, result);
+    this.listenForChanges();
+    return result;
+  }
+
+  /**
+   * Drop the cached detection result - the next detect() reads the environment again
+   * Called automatically when the screen size, orientation, DPR or pointer type changes
+   */
+  static invalidate(): void {
+    this.cache.clear();
+    this.stopListening();
+  }
+
+  /**
+   * Invalidate the cache when the environment detection reads changes
+   * Listeners exist only while a result is cached
+   * @private
+   */
+  private static listenForChanges(): void {
+    if (this.listening) {
+      return;
+    }
+
+    this.listening = true;
+    window.addEventListener('resize', this.handleChange);
+    window.addEventListener('orientationchange', this.handleChange);
+
+    if (typeof window.matchMedia !== 'function') {
+      return;
+    }
+
+    // The resolution query only matches the current DPR, so any change of DPR fires it
+    this.invalidationQueries = ['(pointer: coarse)', '(pointer: none)', `(resolution: ${window.devicePixelRatio || 1}dppx)`]
+      .map((query) => window.matchMedia(query));
+    this.invalidationQueries.forEach((query) => query.addEventListener('change', this.handleChange));
+  }
+
+  /**
+   * Remove the invalidation listeners
+   * @private
+   */
+  private static stopListening(): void {
+    if (!this.listening) {
+      return;
+    }
+
+    window.removeEventListener('resize', this.handleChange);
+    window.removeEventListener('orientationchange', this.handleChange);
+    this.invalidationQueries.forEach((query) => query.removeEventListener('change', this.handleChange));
+    this.invalidationQueries = [];
+    this.listening = false;
+  }
+
+  /**
+   * Handle an environment change
+   * @private
+   */
+  private static handleChange = (): void => {
+    OSDetector.invalidate();
+  };
+
+  /**
+   * Detect operating system from an environment snapshot - pure, reads no globals
+   * @param {EnvironmentSnapshot} environment - Snapshot from snapshot() or a fixture
+   * @param {DetectionOptions} [options] - Detection options
+   * @returns {OSDetectionResult} - Detected OS information with confidence and fired signals
+   */
+  static detectFrom(environment: EnvironmentSnapshot, options: DetectionOptions = {}): OSDetectionResult {
+    const signals = this.collectSignals(environment);
+    const mobile = this.isMobileDevice(environment);
+    const { os, confidence, fallback } = this.classify(environment, mobile, options.fallback !== false);
+
+    return {
+      os,
+      version: os === 'windows' ? this.getWindowsVersion(environment) : undefined,
+      isMobile: mobile,
+      deviceClass: this.getDeviceClass(environment, os, mobile),
+      ...this.detectBrowserFromFeatures(environment),
+      confidence,
+      signals: fallback ? [...signals, `fallback:${os}`] : signals
+    };
+  }
+
+  /**
+   * Read the environment values detection uses - paste the output into a bug report or a fixture
+   * @returns {EnvironmentSnapshot | null} - Snapshot, or null outside the browser
+   */
+  static snapshot(): EnvironmentSnapshot | null {
+    if (typeof window === 'undefined' || typeof navigator === 'undefined') {
+      return null;
+    }
+
+    const w = window as any;
+    const supports = (property: string, value: string) =>
+      typeof CSS !== 'undefined' && typeof CSS.supports === 'function' && CSS.supports(property, value);
+    const matches = (query: string) => typeof window.matchMedia === 'function' && window.matchMedia(query).matches;
+
     return {
-      ...osInfo,
-      browser: this.detectBrowserFromFeatures()
+      platform: navigator.platform || '',
+      userAgentDataPlatform: (navigator as any).userAgentData?.platform || '',
+      pointer: matches('(pointer: coarse)') ? 'coarse' : matches('(pointer: none)') ? 'none' : 'fine',
+      brands: ((navigator as any).userAgentData?.brands || []).map(({ brand, version }: BrowserBrand) => ({ brand, version })),
+      maxTouchPoints: navigator.maxTouchPoints || 0,
+      touchEvents: 'ontouchstart' in window,
+      touchEventConstructor: 'TouchEvent' in window && typeof w.TouchEvent !== 'undefined',
+      standalone: 'standalone' in window.navigator,
+      screen: { width: window.screen.width, height: window.screen.height },
+      viewport: { width: window.innerWidth, height: window.innerHeight },
+      devicePixelRatio: window.devicePixelRatio || 1,
+      css: {
+        touchCallout: supports('-webkit-touch-callout', 'none'),
+        webkitAppearance: supports('-webkit-appearance', 'none'),
+        mozAppearance: supports('-moz-appearance', 'none')
+      },
+      globals: {
+        chrome: typeof w.chrome !== 'undefined',
+        chromeRuntime: typeof w.chrome !== 'undefined' && !!w.chrome.runtime,
+        opr: typeof w.opr !== 'undefined',
+        brave: typeof (navigator as any).brave !== 'undefined',
+        gestureEvent: typeof w.GestureEvent !== 'undefined',
+        installTrigger: typeof w.InstallTrigger !== 'undefined',
+        safari: typeof w.safari !== 'undefined',
+        styleMedia: !!w.StyleMedia,
+        webkit: typeof w.webkit !== 'undefined',
+        activeX: typeof w.ActiveXObject !== 'undefined'
+      }
     };
   }
 
   /**
-   * Detect OS using feature analysis and browser capabilities
+   * Detect operating system, refined with User-Agent Client Hints where available
+   * Client Hints provide real OS versions (e.g. Windows 10 vs 11) and the device model.
+   * Falls back to feature detection in browsers without navigator.userAgentData (Safari, Firefox).
+   * @param {DetectionOptions} [options] - Detection options
+   * @returns {Promise<OSDetectionResult>} - Detected OS information
+   */
+  static async detectAsync(options?: DetectionOptions): Promise<OSDetectionResult> {
+    const result = this.detect(options);
+    const userAgentData = typeof navigator !== 'undefined' ? (navigator as any).userAgentData : undefined;
+
+    if (!userAgentData || typeof userAgentData.getHighEntropyValues !== 'function') {
+      return result;
+    }
+
+    try {
+      const hints: ClientHints = await userAgentData.getHighEntropyValues(
+        ['platform', 'platformVersion', 'model', 'mobile']
+      );
+      return this.applyClientHints(result, hints);
+    } catch {
+      // Hints can be rejected (permissions policy, privacy settings) - keep feature detection
+      return result;
+    }
+  }
+
+  /**
+   * Merge Client Hints values into a detection result
+   * Shared by detectAsync() and the server-side header detection
+   * @param {OSDetectionResult} result - Result to refine
+   * @param {ClientHints} hints - Client Hints values
+   * @returns {OSDetectionResult}
+   */
+  static applyClientHints(result: OSDetectionResult, hints: ClientHints): OSDetectionResult {
+    const hintedOS = this.osFromClientHintsPlatform(hints.platform);
+    const os = hintedOS || result.os;
+    const hintedVersion = this.versionFromClientHints(os, hints.platformVersion);
+    const signals = [
+      ...(hintedOS ? [`clientHints:${hints.platform!.toLowerCase()}`] : []),
+      ...(hintedVersion ? [OSDetector.HIGH_ENTROPY_SIGNAL] : [])
+    ];
+
+    return {
+      ...result,
+      os,
+      version: hintedVersion || result.version,
+      model: hints.model || result.model,
+      isMobile: typeof hints.mobile === 'boolean' ? hints.mobile : result.isMobile,
+      // The browser reports its platform directly - stronger than any feature inference
+      ...(hintedOS && { confidence: Math.max(result.confidence ?? 0, 0.95) }),
+      ...(signals.length && { signals: [...(result.signals || []), ...signals] })
+    };
+  }
+
+  /**
+   * Map the Client Hints platform name to an OS
+   * @private
+   */
+  private static osFromClientHintsPlatform(platform?: string): OS | undefined {
+    switch ((platform || '').toLowerCase()) {
+      case 'windows':
+        return 'windows';
+      case 'macos':
+        return 'macos';
+      case 'linux':
+        return 'linux';
+      case 'chrome os':
+      case 'chromeos':
+      case 'chromium os':
+        return 'chromeos';
+      case 'android':
+        return 'android';
+      case 'ios':
+        return 'ios';
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Turn the Client Hints platformVersion into an OS version
+   * On Windows, platformVersion is the UniversalApiContract version: 13+ is Windows 11,
+   * 1-12 is Windows 10, and 0.x is Windows 7/8/8.1.
    * @private
    */
-  private static detectFromFeatures(): OSDetectionResult {
-    let os: OS = 'unknown';
-    let version: string | undefined;
-    let isMobile = false;
+  private static versionFromClientHints(os: OS, platformVersion?: string): string | undefined {
+    if (!platformVersion) {
+      return undefined;
+    }
+
+    if (os !== 'windows') {
+      return platformVersion;
+    }
+
+    const [major, minor] = platformVersion.split('.').map((part) => parseInt(part, 10));
+    if (major >= 13) {
+      return '11';
+    }
+    if (major >= 1) {
+      return '10';
+    }
+    return ({ 1: '7', 2: '8', 3: '8.1' } as Record<number, string>)[minor];
+  }
+
+  /**
+   * Names of the signals present in a snapshot, in a stable order
+   * @private
+   */
+  private static collectSignals(environment: EnvironmentSnapshot): string[] {
+    const { platform, screen, viewport, css, globals } = environment;
+    const candidates: Array<[string, boolean]> = [
+      [`platform:${platform.toLowerCase()}`, platform !== ''],
+      [`userAgentData:${environment.userAgentDataPlatform.toLowerCase()}`, environment.userAgentDataPlatform !== ''],
+      [`pointer:${environment.pointer}`, environment.pointer !== 'fine'],
+      // GREASE brands ('Not A(Brand') are noise
+      ...environment.brands
+        .filter(({ brand }) => !/not.?a.?brand/i.test(brand))
+        .map(({ brand, version }): [string, boolean] => [`brand:${brand.toLowerCase()}/${version}`, true]),
+      ['ontouchstart', environment.touchEvents],
+      ['maxTouchPoints>0', environment.maxTouchPoints > 0],
+      ['TouchEvent', environment.touchEventConstructor],
+      ['navigator.standalone', environment.standalone],
+      ['screen<1024x768', screen.width < 1024 || screen.height < 768],
+      ['viewport<768', viewport.width < 768 || viewport.height < 768],
+      ['devicePixelRatio>1.5', environment.devicePixelRatio > 1.5],
+      ['-webkit-touch-callout', css.touchCallout],
+      ['-webkit-appearance', css.webkitAppearance],
+      ['-moz-appearance', css.mozAppearance],
+      ['window.chrome', globals.chrome],
+      ['chrome.runtime', globals.chromeRuntime],
+      ['window.opr', globals.opr],
+      ['navigator.brave', globals.brave],
+      ['GestureEvent', globals.gestureEvent],
+      ['InstallTrigger', globals.installTrigger],
+      ['window.safari', globals.safari],
+      ['StyleMedia', globals.styleMedia],
+      ['window.webkit', globals.webkit],
+      ['ActiveXObject', globals.activeX]
+    ];
+    return candidates.filter(([, fired]) => fired).map(([name]) => name);
+  }
+
+  /**
+   * Pick the OS and score it: the platform Chromium reports is the browser's own answer,
+   * a platform match is strong evidence, feature inference weaker, and the mobile / desktop
+   * fallbacks are guesses (or 'unknown' when fallbacks are off).
+   * Each predicate relies on the ones checked before it having failed.
+   * @private
+   */
+  private static classify(
+    environment: EnvironmentSnapshot,
+    mobile: boolean,
+    fallbacks: boolean
+  ): { os: OS; confidence: number; fallback: boolean } {
+    const platform = environment.platform.toLowerCase();
+
+    // navigator.userAgentData.platform tells Chromebooks and Android TVs apart from plain Linux
+    const reportedOS = this.osFromClientHintsPlatform(environment.userAgentDataPlatform);
+    if (reportedOS) {
+      return { os: reportedOS, confidence: 0.95, fallback: false };
+    }
 
     // Check for mobile devices first (using feature detection)
-    if (this.isMobileDevice()) {
-      isMobile = true;
-      
+    if (mobile) {
       // iOS detection (feature-based) - check first as it's more specific
-      if (this.isIOSDevice()) {
-        os = 'ios';
-        version = this.getIOSVersion();
+      if (this.isIOSDevice(environment)) {
+        if (/iphone|ipod/.test(platform)) {
+          return { os: 'ios', confidence: 0.95, fallback: false };
+        }
+        if (platform.includes('ipad')) {
+          return { os: 'ipados', confidence: 0.95, fallback: false };
+        }
+        // iPads in desktop mode report MacIntel - a Mac with touch points is an iPad
+        if (platform.includes('mac') && environment.maxTouchPoints > 1) {
+          return { os: 'ipados', confidence: 0.85, fallback: false };
+        }
+        return { os: this.isTabletScreen(environment) ? 'ipados' : 'ios', confidence: 0.7, fallback: false };
       }
       // Android detection (feature-based)
-      else if (this.isAndroidDevice()) {
-        os = 'android';
-        version = this.getAndroidVersion();
+      if (this.isAndroidDevice(environment)) {
+        return { os: 'android', confidence: platform.includes('android') || platform.includes('linux') ? 0.9 : 0.6, fallback: false };
       }
       // Fallback: if mobile but can't determine, default to android (most common)
-      else {
-        os = 'android';
-      }
+      return fallbacks
+        ? { os: 'android', confidence: 0.3, fallback: true }
+        : { os: 'unknown', confidence: 0, fallback: false };
     }
-    // Desktop OS detection
-    else {
-      // Windows detection (feature-based) - check first as it's most common
-      if (this.isWindowsDevice()) {
-        os = 'windows';
-        version = this.getWindowsVersion();
-      }
-      // macOS detection (feature-based)
-      else if (this.isMacOSDevice()) {
-        os = 'macos';
-        version = this.getMacOSVersion();
-      }
-      // Linux detection (feature-based)
-      else if (this.isLinuxDevice()) {
-        os = 'linux';
-      }
-      // Fallback: use platform property as last resort
-      else {
-        const platform = navigator.platform?.toLowerCase() || '';
-        if (platform.includes('win')) {
-          os = 'windows';
-        } else if (platform.includes('mac') || platform.includes('darwin')) {
-          os = 'macos';
-        } else if (platform.includes('linux')) {
-          os = 'linux';
-        }
-        // If still unknown, default to windows (most common desktop OS)
-        if (os === 'unknown') {
-          os = 'windows';
-        }
-      }
+
+    // Windows detection (feature-based) - check first as it's most common
+    if (this.isWindowsDevice(environment)) {
+      return { os: 'windows', confidence: /win|wow64/.test(platform) ? 0.9 : 0.6, fallback: false };
+    }
+    // macOS detection (feature-based)
+    if (this.isMacOSDevice(environment)) {
+      const isMacPlatform = platform.includes('mac') || platform.includes('darwin');
+      const hasSafariFeatures = environment.globals.safari && environment.globals.webkit;
+      return { os: 'macos', confidence: isMacPlatform ? 0.9 : hasSafariFeatures ? 0.7 : 0.5, fallback: false };
     }
+    // Linux detection (feature-based)
+    if (this.isLinuxDevice(environment)) {
+      return { os: 'linux', confidence: platform.includes('linux') || platform.includes('x11') ? 0.85 : 0.4, fallback: false };
+    }
+    // If still unknown, default to windows (most common desktop OS)
+    return fallbacks
+      ? { os: 'windows', confidence: 0.2, fallback: true }
+      : { os: 'unknown', confidence: 0, fallback: false };
+  }
+
+  /**
+   * Work out the device class
+   * TVs have no touch and no fine pointer (remote control); mobile devices and iPads are
+   * tablets when the shorter screen side is at least 600px, phones otherwise
+   * @private
+   */
+  private static getDeviceClass(environment: EnvironmentSnapshot, os: OS, mobile: boolean): DeviceClass {
+    if (os === 'ipados') {
+      return 'tablet';
+    }
+    if (mobile) {
+      return this.isTabletScreen(environment) ? 'tablet' : 'phone';
+    }
+    if (!this.hasTouchSupport(environment) && environment.pointer !== 'fine') {
+      return 'tv';
+    }
+    return 'desktop';
+  }
 
-    return { os, version, isMobile };
+  /**
+   * Shorter screen side of at least 600px
+   * @private
+   */
+  private static isTabletScreen(environment: EnvironmentSnapshot): boolean {
+    return Math.min(environment.screen.width, environment.screen.height) >= 600;
   }
 
   /**
    * Detect if device is mobile using feature analysis
    * @private
    */
-  private static isMobileDevice(): boolean {
+  private static isMobileDevice(environment: EnvironmentSnapshot): boolean {
     // Check for touch capabilities
-    const hasTouchScreen = 'ontouchstart' in window || navigator.maxTouchPoints > 0;
-    
+    const hasTouchScreen = this.hasTouchSupport(environment);
+
     // Check screen size and orientation (more lenient for tablets)
-    const screenWidth = window.screen.width;
-    const screenHeight = window.screen.height;
-    const isSmallScreen = screenWidth < 1024 || screenHeight < 768;
-    
+    const isSmallScreen = environment.screen.width < 1024 || environment.screen.height < 768;
+
     // Check for mobile-specific APIs
-    const hasMobileAPIs = 'standalone' in window.navigator;
-    const hasHighDPI = (window as any).devicePixelRatio > 1.5;
-    
+    const hasMobileAPIs = environment.standalone;
+    const hasHighDPI = environment.devicePixelRatio > 1.5;
+
     // Check for mobile viewport behavior
-    const hasMobileViewport = window.innerWidth < 768 || window.innerHeight < 768;
-    
+    const hasMobileViewport = environment.viewport.width < 768 || environment.viewport.height < 768;
+
     // Mobile if: touch + (small screen OR mobile APIs OR high DPI with mobile viewport)
     return hasTouchScreen && (isSmallScreen || hasMobileAPIs || (hasHighDPI && hasMobileViewport));
   }
 
   /**
-   * Detect iOS using feature analysis (no user agent parsing)
+   * Touch events or touch points
    * @private
    */
-  private static isIOSDevice(): boolean {
-    // iOS-specific features
-    const hasIOSStandalone = 'standalone' in window.navigator;
-    const hasTouchSupport = 'ontouchstart' in window || navigator.maxTouchPoints > 0;
-    
-    // Check for iOS-specific CSS support (most reliable)
-    const hasIOSCSS = CSS.supports('-webkit-touch-callout', 'none');
-    
-    // Check for iOS-specific vendor prefixes
-    const hasWebkitVendor = CSS.supports('-webkit-appearance', 'none');
-    
-    // Check for iOS-specific behaviors
-    // iOS Safari has specific touch event behaviors
-    const hasIOSTouchBehavior = 'TouchEvent' in window && 
-                                typeof (window as any).TouchEvent !== 'undefined';
-    
-    // Check platform (direct property, not parsed)
-    const platform = navigator.platform?.toLowerCase() || '';
-    const isIOSPlatform = platform.includes('iphone') || 
-                          platform.includes('ipad') || 
-                          platform.includes('ipod');
-    
-    // iOS detection: platform check OR (standalone + touch + iOS CSS features)
-    return isIOSPlatform || 
-           (hasIOSStandalone && hasTouchSupport && (hasIOSCSS || hasWebkitVendor)) ||
-           (hasTouchSupport && hasIOSCSS && hasIOSTouchBehavior && this.isMobileDevice());
+  private static hasTouchSupport(environment: EnvironmentSnapshot): boolean {
+    return environment.touchEvents || environment.maxTouchPoints > 0;
   }
 
   /**
-   * Get iOS version using feature detection
+   * Detect iOS using feature analysis (no user agent parsing)
+   * Checked on mobile devices
    * @private
    */
-  private static getIOSVersion(): string | undefined {
-    // Limited version detection without user agent
-    // Can check for specific iOS API availability
-    if (typeof (window as any).webkitRequestFileSystem !== 'undefined') {
-      return undefined; // Version detection limited without user agent
-    }
-    return undefined;
+  private static isIOSDevice(environment: EnvironmentSnapshot): boolean {
+    const hasTouchSupport = this.hasTouchSupport(environment);
+
+    // iOS-specific CSS support (most reliable) and vendor prefixes
+    const { touchCallout: hasIOSCSS, webkitAppearance: hasWebkitVendor } = environment.css;
+
+    // Check platform (direct property, not parsed)
+    const platform = environment.platform.toLowerCase();
+    const isIOSPlatform = platform.includes('iphone') ||
+                          platform.includes('ipad') ||
+                          platform.includes('ipod');
+
+    // iOS detection: platform check OR (standalone + touch + iOS CSS features)
+    return isIOSPlatform ||
+           (environment.standalone && hasTouchSupport && (hasIOSCSS || hasWebkitVendor)) ||
+           (hasTouchSupport && hasIOSCSS && environment.touchEventConstructor);
   }
 
   /**
    * Detect Android using feature analysis (no user agent parsing)
+   * Checked on mobile devices that are not iOS
    * @private
    */
-  private static isAndroidDevice(): boolean {
-    // Must be mobile and not iOS
-    if (!this.isMobileDevice() || this.isIOSDevice()) {
-      return false;
-    }
-    
-    const hasTouchSupport = 'ontouchstart' in window || navigator.maxTouchPoints > 0;
-    
+  private static isAndroidDevice(environment: EnvironmentSnapshot): boolean {
     // Check platform (direct property, not parsed)
-    const platform = navigator.platform?.toLowerCase() || '';
-    const isAndroidPlatform = platform.includes('android') || 
-                              platform.includes('linux') && this.isMobileDevice();
-    
-    // Android-specific behaviors
-    // Android Chrome has specific features
-    const hasChromeFeatures = typeof (window as any).chrome !== 'undefined' && 
-                              (window as any).chrome.runtime &&
-                              this.isMobileDevice();
-    
-    // Android detection: platform check OR (mobile + touch + Chrome on mobile)
-    return isAndroidPlatform || 
-           (hasTouchSupport && hasChromeFeatures && !this.isIOSDevice());
-  }
+    const platform = environment.platform.toLowerCase();
+    const isAndroidPlatform = platform.includes('android') || platform.includes('linux');
 
-  /**
-   * Get Android version using feature detection
-   * @private
-   */
-  private static getAndroidVersion(): string | undefined {
-    // Limited version detection without user agent
-    return undefined;
+    // Android detection: platform check OR (touch + Chrome on mobile)
+    return isAndroidPlatform || (this.hasTouchSupport(environment) && environment.globals.chromeRuntime);
   }
 
   /**
    * Detect Windows using feature analysis (no user agent parsing)
+   * Checked on non-mobile devices
    * @private
    */
-  private static isWindowsDevice(): boolean {
-    // Must not be mobile
-    if (this.isMobileDevice()) {
-      return false;
-    }
-    
+  private static isWindowsDevice(environment: EnvironmentSnapshot): boolean {
     // Use platform (direct property, not parsed from user agent)
-    const platform = navigator.platform?.toLowerCase() || '';
-    const isWindowsPlatform = platform.includes('win') || 
-                              platform.includes('wow64') ||
-                              platform.includes('win64');
-    
-    // Windows-specific APIs (ActiveX only in IE, but check anyway)
-    const hasActiveX = typeof (window as any).ActiveXObject !== 'undefined';
-    
+    const platform = environment.platform.toLowerCase();
+    const isWindowsPlatform = platform.includes('win') || platform.includes('wow64');
+
     // Windows often has specific screen dimensions
-    const screenWidth = window.screen.width;
-    const screenHeight = window.screen.height;
-    const isDesktopScreen = screenWidth >= 1024 && screenHeight >= 768;
-    
+    const isDesktopScreen = environment.screen.width >= 1024 && environment.screen.height >= 768;
+
     // Windows detection: platform check (primary) OR (ActiveX + desktop screen)
-    return isWindowsPlatform || (hasActiveX && isDesktopScreen);
+    return isWindowsPlatform || (environment.globals.activeX && isDesktopScreen);
   }
 
   /**
    * Get Windows version using feature detection
    * @private
    */
-  private static getWindowsVersion(): string | undefined {
-    const platform = navigator.platform?.toLowerCase() || '';
+  private static getWindowsVersion(environment: EnvironmentSnapshot): string | undefined {
+    const platform = environment.platform.toLowerCase();
     if (platform.includes('win64') || platform.includes('wow64')) {
       return 'Windows 10/11';
     } else if (platform.includes('win32')) {
@@ -244,93 +537,94 @@ export class OSDetector {
 
   /**
    * Detect macOS using feature analysis (no user agent parsing)
+   * Checked on non-mobile devices that are not Windows
    * @private
    */
-  private static isMacOSDevice(): boolean {
-    // Must not be mobile
-    if (this.isMobileDevice()) {
-      return false;
-    }
-    
+  private static isMacOSDevice(environment: EnvironmentSnapshot): boolean {
     // Use platform (direct property, not parsed from user agent) - most reliable
-    const platform = navigator.platform?.toLowerCase() || '';
+    const platform = environment.platform.toLowerCase();
     const isMacPlatform = platform.includes('mac') || platform.includes('darwin');
-    
-    // macOS-specific features
-    const hasWebkit = typeof (window as any).webkit !== 'undefined';
-    
-    // Check for Safari on macOS (Safari is primarily macOS)
-    const hasSafariFeatures = typeof (window as any).safari !== 'undefined';
-    
-    // macOS often has specific screen characteristics (but not required)
-    const hasRetinaDisplay = (window as any).devicePixelRatio >= 2;
-    
-    // macOS detection: platform check (primary) OR (Safari + WebKit + desktop)
-    return isMacPlatform || 
-           (hasSafariFeatures && hasWebkit && !this.isMobileDevice()) ||
-           (hasWebkit && hasRetinaDisplay && !this.isWindowsDevice() && !this.isMobileDevice());
-  }
 
-  /**
-   * Get macOS version using feature detection
-   * @private
-   */
-  private static getMacOSVersion(): string | undefined {
-    // Limited version detection without user agent
-    return undefined;
+    // macOS-specific features: WebKit, Safari (primarily macOS) and Retina displays
+    const { webkit: hasWebkit, safari: hasSafariFeatures } = environment.globals;
+    const hasRetinaDisplay = environment.devicePixelRatio >= 2;
+
+    // macOS detection: platform check (primary) OR (Safari + WebKit) OR (WebKit + Retina)
+    return isMacPlatform ||
+           (hasSafariFeatures && hasWebkit) ||
+           (hasWebkit && hasRetinaDisplay);
   }
 
   /**
    * Detect Linux using feature analysis (no user agent parsing)
+   * Checked on non-mobile devices that are neither Windows nor macOS
    * @private
    */
-  private static isLinuxDevice(): boolean {
-    // Must not be mobile, Windows, or macOS
-    if (this.isMobileDevice() || this.isWindowsDevice() || this.isMacOSDevice()) {
-      return false;
-    }
-    
+  private static isLinuxDevice(environment: EnvironmentSnapshot): boolean {
     // Use platform (direct property, not parsed from user agent) - most reliable
-    const platform = navigator.platform?.toLowerCase() || '';
+    const platform = environment.platform.toLowerCase();
     const isLinuxPlatform = (platform.includes('linux') && !platform.includes('android')) ||
                            platform.includes('x11');
-    
-    // Linux-specific browser features
-    const hasFirefoxFeatures = typeof (window as any).InstallTrigger !== 'undefined';
-    
+
     // Linux often uses Firefox or Chromium
-    const hasChromiumFeatures = typeof (window as any).chrome !== 'undefined' && 
-                                (window as any).chrome.runtime;
-    
+    const { installTrigger: hasFirefoxFeatures, chromeRuntime: hasChromiumFeatures } = environment.globals;
+
     // Linux detection: platform check (primary) OR (Firefox/Chromium on desktop, not Windows/Mac)
-    return isLinuxPlatform || 
-           ((hasFirefoxFeatures || hasChromiumFeatures) && 
-            !this.isWindowsDevice() && 
-            !this.isMacOSDevice() && 
-            !this.isMobileDevice());
+    return isLinuxPlatform || hasFirefoxFeatures || hasChromiumFeatures;
   }
 
   /**
-   * Detect browser using feature detection (no user agent parsing)
+   * Detect browser, engine and major version from Client Hints brands and feature probes
+   * (no user agent parsing). Firefox and Safari send no brands, so they get no version;
+   * on iOS every browser runs on WebKit and is reported as Safari.
    * @private
    */
-  private static detectBrowserFromFeatures(): string | undefined {
-    // Feature-based browser detection (no user agent parsing)
-    if (typeof (window as any).chrome !== 'undefined' && (window as any).chrome.runtime) {
-      return 'Chrome';
+  private static detectBrowserFromFeatures(environment: EnvironmentSnapshot): BrowserInfo {
+    const { globals, css } = environment;
+    const branded = this.detectBrowserFromBrands(environment.brands);
+    const chromiumVersion = branded?.browserVersion;
+
+    // Brave and older Opera builds only identify themselves through their globals
+    if (globals.brave) {
+      return { browser: 'Brave', browserVersion: chromiumVersion, engine: 'Blink' };
     }
-    if (typeof (window as any).InstallTrigger !== 'undefined') {
-      return 'Firefox';
+    if (globals.opr && (!branded || branded.browser === 'Chromium' || branded.browser === 'Chrome')) {
+      return { browser: 'Opera', browserVersion: undefined, engine: 'Blink' };
     }
-    if (typeof (window as any).safari !== 'undefined') {
-      return 'Safari';
+    if (branded) {
+      return branded;
     }
-    if ((window as any).StyleMedia) {
-      return 'Edge';
+    if (globals.chrome || globals.chromeRuntime) {
+      return { browser: 'Chrome', browserVersion: undefined, engine: 'Blink' };
     }
-    return undefined;
+    if (css.mozAppearance || globals.installTrigger) {
+      return { browser: 'Firefox', browserVersion: undefined, engine: 'Gecko' };
+    }
+    if (globals.safari || globals.gestureEvent) {
+      return { browser: 'Safari', browserVersion: undefined, engine: 'WebKit' };
+    }
+    if (globals.styleMedia) {
+      // Legacy (EdgeHTML) Edge
+      return { browser: 'Edge', browserVersion: undefined, engine: undefined };
+    }
+    return { browser: undefined, browserVersion: undefined, engine: undefined };
   }
 
+  /**
+   * Identify a Chromium-based browser from Client Hints brands
+   * Shared by detection and the server-side header detection (Sec-CH-UA)
+   * @param {BrowserBrand[]} brands - navigator.userAgentData.brands or the parsed Sec-CH-UA header
+   * @returns {Object | undefined} - Browser, major version and engine (Blink), or undefined without a known brand
+   */
+  static detectBrowserFromBrands(brands: BrowserBrand[]): BrowserInfo | undefined {
+    for (const [brand, browser] of this.BRANDS) {
+      const match = brands.find((entry) => entry.brand === brand);
+      if (match) {
+        return { browser, browserVersion: match.version.split('.')[0], engine: 'Blink' };
+      }
+    }
+    return undefined;
+  }
 
   /**
    * Check if specific OS is detected
@@ -0,0 +1,17 @@
+import { ConfigIssue } from '../types';
+
+/**
+ * OSZoomConfigError - Thrown in strict mode for an invalid config or zoom level
+ */
+export class OSZoomConfigError extends Error {
+  readonly issues: ConfigIssue[];
+
+  /**
+   * @param {ConfigIssue[]} issues - Problems that caused the error
+   */
+  constructor(issues: ConfigIssue[]) {
+    super(`[OSZoom] Invalid config:\n${issues.map((issue) => `  ${issue.path}: ${issue.message}`).join('\n')}`);
+    this.name = 'OSZoomConfigError';
+    this.issues = issues;
+  }
+}
@@ -0,0 +1,120 @@
+import { PreferenceStore } from './PreferenceStore';
+import { MemoryStorage } from '../utils/storage';
+import { ZoomStorage } from '../types';
+
+// Lets pending BroadcastChannel messages arrive
+const flush = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+describe('PreferenceStore', () => {
+  it('saves and loads zoom levels', () => {
+    const store = new PreferenceStore({ storage: 'memory' });
+    store.save({ windows: 0.9, macos: 1.1 });
+    expect(store.load()).toEqual({ windows: 0.9, macos: 1.1 });
+    store.clear();
+    expect(store.load()).toEqual({});
+  });
+
+  it('discards preferences saved with another schema version', () => {
+    const storage = new MemoryStorage();
+    new PreferenceStore({ storage, version: 1 }).save({ windows: 0.9 });
+    expect(new PreferenceStore({ storage, version: 2 }).load()).toEqual({});
+  });
+
+  it('drops unreadable preferences and non-numeric levels', () => {
+    const storage = new MemoryStorage();
+    const store = new PreferenceStore({ storage, key: 'zoom' });
+    storage.setItem('zoom', '{not json');
+    expect(store.load()).toEqual({});
+    storage.setItem('zoom', JSON.stringify({ version: 1, levels: { windows: 0.9, macos: 'big', linux: null } }));
+    expect(store.load()).toEqual({ windows: 0.9 });
+  });
+
+  it('keeps the preference in memory when the storage rejects the write', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const full: ZoomStorage = {
+      getItem: () => null,
+      setItem: () => {
+        throw Object.assign(new Error('Quota exceeded'), { name: 'QuotaExceededError' });
+      },
+      removeItem: () => {}
+    };
+    const store = new PreferenceStore({ storage: full });
+
+    expect(() => store.save({ windows: 0.9 })).not.toThrow();
+    expect(store.load()).toEqual({ windows: 0.9 });
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('QuotaExceededError'));
+    warn.mockRestore();
+  });
+
+  describe('sync across tabs', () => {
+    const globals = globalThis as any;
+    let stores: PreferenceStore[] = [];
+
+    // Minimal window: an event target with web storage
+    beforeEach(() => {
+      globals.window = Object.assign(new EventTarget(), {
+        localStorage: new MemoryStorage(),
+        sessionStorage: new MemoryStorage()
+      });
+    });
+
+    afterEach(() => {
+      stores.forEach((store) => store.destroy());
+      stores = [];
+      delete globals.window;
+    });
+
+    const create = (...args: ConstructorParameters<typeof PreferenceStore>) => {
+      const store = new PreferenceStore(...args);
+      stores.push(store);
+      return store;
+    };
+
+    it('applies a localStorage change once, from the storage event', async () => {
+      const sender = create();
+      const receiver = create();
+      const onChange = jest.fn();
+      receiver.onChange(onChange);
+
+      sender.save({ windows: 0.9 });
+      await flush();
+      expect(onChange).not.toHaveBeenCalled();
+
+      // What the browser fires in the other tab
+      const event = Object.assign(new Event('storage'), {
+        key: PreferenceStore.DEFAULT_KEY,
+        newValue: globals.window.localStorage.getItem(PreferenceStore.DEFAULT_KEY)
+      });
+      globals.window.dispatchEvent(event);
+      expect(onChange).toHaveBeenCalledTimes(1);
+      expect(onChange).toHaveBeenCalledWith({ windows: 0.9 });
+    });
+
+    it('syncs other backends over a BroadcastChannel', async () => {
+      const sender = create({ storage: 'sessionStorage' });
+      const receiver = create({ storage: 'sessionStorage' });
+      const onChange = jest.fn();
+      receiver.onChange(onChange);
+
+      sender.save({ macos: 1.1 });
+      await flush();
+      expect(onChange).toHaveBeenCalledTimes(1);
+      expect(onChange).toHaveBeenCalledWith({ macos: 1.1 });
+
+      sender.clear();
+      await flush();
+      expect(onChange).toHaveBeenLastCalledWith({});
+    });
+
+    it('does not listen with sync: false', async () => {
+      const sender = create({ storage: 'sessionStorage' });
+      const receiver = create({ storage: 'sessionStorage', sync: false });
+      const onChange = jest.fn();
+      receiver.onChange(onChange);
+
+      sender.save({ macos: 1.1 });
+      await flush();
+      expect(onChange).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,165 @@
+import { OS, ZoomPersistenceConfig, ZoomPreference, ZoomStorage } from '../types';
+import { createStorage, MemoryStorage } from '../utils/storage';
+
+type PreferenceLevels = ZoomPreference['levels'];
+
+/**
+ * PreferenceStore - Persists user-chosen zoom levels and syncs them across tabs
+ */
+export class PreferenceStore {
+  static readonly DEFAULT_KEY = 'oszoom:preference';
+  static readonly DEFAULT_VERSION = 1;
+
+  private storage: ZoomStorage;
+  private key: string;
+  private version: number;
+  private channel: BroadcastChannel | null = null;
+  private listening = false;
+  private onExternalChange: ((levels: PreferenceLevels) => void) | null = null;
+
+  constructor(config: ZoomPersistenceConfig = {}) {
+    this.storage = createStorage(config.storage);
+    this.key = config.key || PreferenceStore.DEFAULT_KEY;
+    this.version = config.version ?? PreferenceStore.DEFAULT_VERSION;
+
+    if (config.sync !== false) {
+      this.startSync();
+    }
+  }
+
+  /**
+   * Load the saved zoom levels
+   * Unreadable or outdated (different schema version) preferences are discarded
+   * @returns {Object} - Saved zoom level per OS
+   */
+  load(): PreferenceLevels {
+    return this.parse(this.storage.getItem(this.key));
+  }
+
+  /**
+   * Save zoom levels and notify other tabs
+   * A full or blocked storage (QuotaExceededError, SecurityError) switches to in-memory storage
+   * @param {Object} levels - Zoom level per OS
+   */
+  save(levels: PreferenceLevels): void {
+    const preference: ZoomPreference = { version: this.version, levels };
+    const serialized = JSON.stringify(preference);
+    this.write((storage) => storage.setItem(this.key, serialized));
+    this.channel?.postMessage(serialized);
+  }
+
+  /**
+   * Remove the saved preference and notify other tabs
+   */
+  clear(): void {
+    this.write((storage) => storage.removeItem(this.key));
+    this.channel?.postMessage(null);
+  }
+
+  /**
+   * Register the handler for preferences changed in another tab
+   * @param {Function} handler - Called with the new zoom levels
+   */
+  onChange(handler: (levels: PreferenceLevels) => void): void {
+    this.onExternalChange = handler;
+  }
+
+  /**
+   * Stop listening for changes from other tabs
+   */
+  destroy(): void {
+    if (this.listening) {
+      window.removeEventListener('storage', this.handleStorageEvent);
+      this.listening = false;
+    }
+    this.channel?.close();
+    this.channel = null;
+    this.onExternalChange = null;
+  }
+
+  /**
+   * Listen for changes from other tabs - one transport per backend, so a change arrives once:
+   * storage events for localStorage, a BroadcastChannel for every other backend
+   * @private
+   */
+  private startSync(): void {
+    if (typeof window === 'undefined') {
+      return;
+    }
+
+    if (this.isLocalStorage()) {
+      window.addEventListener('storage', this.handleStorageEvent);
+      this.listening = true;
+    } else if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(this.key);
+      this.channel.onmessage = (event: MessageEvent) => {
+        this.onExternalChange?.(this.parse(event.data));
+      };
+    }
+  }
+
+  /**
+   * Check whether the backend is the browser's localStorage
+   * @private
+   */
+  private isLocalStorage(): boolean {
+    try {
+      return this.storage === window.localStorage;
+    } catch {
+      return false; // Reading window.localStorage throws when it is blocked
+    }
+  }
+
+  /**
+   * Write to the storage, falling back to memory when the write fails
+   * @private
+   */
+  private write(action: (storage: ZoomStorage) => void): void {
+    try {
+      action(this.storage);
+    } catch (error) {
+      console.warn(`[OSZoom] Could not save the zoom preference (${(error as Error)?.name || error}); keeping it in memory`);
+      this.storage = new MemoryStorage();
+      action(this.storage);
+    }
+  }
+
+  /**
+   * Handle localStorage changes made by other tabs
+   * @private
+   */
+  private handleStorageEvent = (event: StorageEvent): void => {
+    if (event.key !== this.key && event.key !== null) {
+      return;
+    }
+    this.onExternalChange?.(this.parse(event.newValue));
+  };
+
+  /**
+   * Parse a serialized preference
+   * @private
+   */
+  private parse(serialized: string | null): PreferenceLevels {
+    if (!serialized) {
+      return {};
+    }
+
+    try {
+      const preference = JSON.parse(serialized) as ZoomPreference;
+      if (!preference || preference.version !== this.version || typeof preference.levels !== 'object') {
+        return {};
+      }
+
+      const levels: PreferenceLevels = {};
+      Object.keys(preference.levels).forEach((os) => {
+        const level = (preference.levels as any)[os];
+        if (typeof level === 'number' && isFinite(level)) {
+          levels[os as OS] = level;
+        }
+      });
+      return levels;
+    } catch {
+      return {};
+    }
+  }
+}
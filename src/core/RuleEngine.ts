@@ -0,0 +1,159 @@
+import {
+  OSDetectionResult,
+  ZoomRule,
+  ZoomRuleContext,
+  ZoomRuleEvaluation,
+  ZoomRuleResolution
+} from '../types';
+
+/**
+ * RuleEngine - Picks a zoom level from rules on OS, version, browser, device class, touch and DPR
+ */
+export class RuleEngine {
+  private rules: ZoomRule[];
+  private policy: ZoomRuleResolution;
+
+  constructor(rules: ZoomRule[] = [], policy: ZoomRuleResolution = 'first-match') {
+    this.rules = rules;
+    this.policy = policy;
+  }
+
+  /**
+   * Build the rule context for a detection result from the current environment
+   * Tablets come from the detected device class; without one, they are mobile devices whose
+   * shorter screen side is at least 600px
+   * @param {OSDetectionResult} detection - Detection result
+   * @returns {ZoomRuleContext}
+   */
+  static createContext(detection: OSDetectionResult): ZoomRuleContext {
+    if (typeof window === 'undefined' || typeof navigator === 'undefined') {
+      return { detection, tablet: false, touch: false, dpr: 1 };
+    }
+
+    const shortSide = Math.min(window.screen.width, window.screen.height);
+    return {
+      detection,
+      tablet: detection.deviceClass ? detection.deviceClass === 'tablet' : detection.isMobile && shortSide >= 600,
+      touch: 'ontouchstart' in window || navigator.maxTouchPoints > 0,
+      dpr: window.devicePixelRatio || 1
+    };
+  }
+
+  /**
+   * Get the resolution policy
+   * @returns {ZoomRuleResolution}
+   */
+  getPolicy(): ZoomRuleResolution {
+    return this.policy;
+  }
+
+  /**
+   * Evaluate every rule against a context
+   * @param {ZoomRuleContext} context - Rule context
+   * @returns {ZoomRuleEvaluation[]} - One evaluation per rule, in config order
+   */
+  evaluate(context: ZoomRuleContext): ZoomRuleEvaluation[] {
+    return this.rules.map((rule) => RuleEngine.evaluateRule(rule, context));
+  }
+
+  /**
+   * Pick the winning rule from evaluations
+   * @param {ZoomRuleEvaluation[]} evaluations - Result of evaluate()
+   * @returns {ZoomRuleEvaluation | undefined} - Winning evaluation, if any rule matched
+   */
+  pick(evaluations: ZoomRuleEvaluation[]): ZoomRuleEvaluation | undefined {
+    const matches = evaluations.filter((evaluation) => evaluation.matched);
+
+    // Array.prototype.sort is stable, so ties keep config order
+    return matches.sort((a, b) => {
+      const byPriority = (b.rule.priority || 0) - (a.rule.priority || 0);
+      if (byPriority !== 0 || this.policy === 'first-match') {
+        return byPriority;
+      }
+      return b.specificity - a.specificity;
+    })[0];
+  }
+
+  /**
+   * Find the winning rule for a context
+   * @param {ZoomRuleContext} context - Rule context
+   * @returns {ZoomRule | undefined}
+   */
+  match(context: ZoomRuleContext): ZoomRule | undefined {
+    return this.pick(this.evaluate(context))?.rule;
+  }
+
+  /**
+   * Evaluate one rule
+   * @private
+   */
+  private static evaluateRule(rule: ZoomRule, context: ZoomRuleContext): ZoomRuleEvaluation {
+    const { when } = rule;
+    const { detection } = context;
+    const reasons: string[] = [];
+    let matched = true;
+
+    const check = (label: string, passed: boolean, detail: string) => {
+      reasons.push(`${label}: ${detail}${passed ? '' : ' (no match)'}`);
+      matched = matched && passed;
+    };
+
+    if (when.os !== undefined) {
+      const expected = RuleEngine.toArray(when.os);
+      check('os', expected.includes(detection.os), `${detection.os} vs ${expected.join('|')}`);
+    }
+
+    if (when.osVersion !== undefined) {
+      const expected = RuleEngine.toArray(when.osVersion);
+      const version = detection.version;
+      const passed = !!version && expected.some((key) => version === key || version.startsWith(`${key}.`));
+      check('osVersion', passed, `${version ?? 'unknown'} vs ${expected.join('|')}`);
+    }
+
+    if (when.browser !== undefined) {
+      const expected = RuleEngine.toArray(when.browser).map((browser) => browser.toLowerCase());
+      const browser = detection.browser?.toLowerCase();
+      check('browser', !!browser && expected.includes(browser), `${detection.browser ?? 'unknown'} vs ${expected.join('|')}`);
+    }
+
+    if (when.mobile !== undefined) {
+      check('mobile', detection.isMobile === when.mobile, `${detection.isMobile} vs ${when.mobile}`);
+    }
+
+    if (when.tablet !== undefined) {
+      check('tablet', context.tablet === when.tablet, `${context.tablet} vs ${when.tablet}`);
+    }
+
+    if (when.touch !== undefined) {
+      check('touch', context.touch === when.touch, `${context.touch} vs ${when.touch}`);
+    }
+
+    if (when.minDpr !== undefined) {
+      check('minDpr', context.dpr >= when.minDpr, `${context.dpr} >= ${when.minDpr}`);
+    }
+
+    if (when.maxDpr !== undefined) {
+      check('maxDpr', context.dpr <= when.maxDpr, `${context.dpr} <= ${when.maxDpr}`);
+    }
+
+    if (when.test !== undefined) {
+      let passed = false;
+      try {
+        passed = !!when.test(context);
+      } catch (error) {
+        console.error('[OSZoom] Error in rule predicate:', error);
+      }
+      check('test', passed, `custom predicate returned ${passed}`);
+    }
+
+    return { rule, matched, specificity: reasons.length, reasons };
+  }
+
+  /**
+   * Normalize a single value or a list to a list
+   * @private
+   */
+  private static toArray<T>(value: T | T[]): T[] {
+    return Array.isArray(value) ? value : [value];
+  }
+}
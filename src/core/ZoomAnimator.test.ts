@@ -0,0 +1,128 @@
+/**
+ * @jest-environment jsdom
+ */
+import { ZoomAnimator } from './ZoomAnimator';
+import { ZoomManager } from './ZoomManager';
+import { ConfigManager } from './ConfigManager';
+import { easings, getEasing } from '../utils/easing';
+
+// Frames run when the test says so, at the timestamp it gives
+let frames = new Map<number, FrameRequestCallback>();
+let nextFrame = 1;
+window.requestAnimationFrame = (callback) => {
+  frames.set(nextFrame, callback);
+  return nextFrame++;
+};
+window.cancelAnimationFrame = (id) => {
+  frames.delete(id);
+};
+
+function runFrame(timestamp: number): void {
+  const pending = frames;
+  frames = new Map();
+  pending.forEach((callback) => callback(timestamp));
+}
+
+let reducedMotion = false;
+window.matchMedia = ((media: string) => ({
+  matches: media === '(prefers-reduced-motion: reduce)' && reducedMotion,
+  addEventListener: () => {},
+  removeEventListener: () => {}
+})) as any;
+
+beforeEach(() => {
+  frames.clear();
+  reducedMotion = false;
+});
+
+describe('easings', () => {
+  it('start at 0 and end at 1', () => {
+    Object.values(easings).forEach((easing) => {
+      expect(easing(0)).toBe(0);
+      expect(easing(1)).toBe(1);
+    });
+    expect(easings['ease-in-out'](0.5)).toBe(0.5);
+  });
+
+  it('resolves names and functions, defaulting to ease-in-out', () => {
+    const custom = (t: number) => t;
+    expect(getEasing(custom)).toBe(custom);
+    expect(getEasing('ease-out')).toBe(easings['ease-out']);
+    expect(getEasing()).toBe(easings['ease-in-out']);
+  });
+});
+
+describe('ZoomAnimator', () => {
+  it('steps through eased levels and ends on the target', () => {
+    const animator = new ZoomAnimator();
+    const onFrame = jest.fn();
+    const onEnd = jest.fn();
+    animator.animate(1, 2, 100, easings.linear, onFrame, onEnd);
+
+    runFrame(0);
+    runFrame(50);
+    expect(animator.isRunning()).toBe(true);
+    runFrame(100);
+    expect(onFrame.mock.calls.map(([level]) => level)).toEqual([1, 1.5, 2]);
+    expect(onEnd).toHaveBeenCalledTimes(1);
+    expect(animator.isRunning()).toBe(false);
+  });
+
+  it('cancels the running animation for a new one', () => {
+    const animator = new ZoomAnimator();
+    const firstEnd = jest.fn();
+    const onFrame = jest.fn();
+    animator.animate(1, 2, 100, easings.linear, () => {}, firstEnd);
+    runFrame(0);
+    animator.animate(1.2, 0.8, 100, easings.linear, onFrame, () => {});
+    runFrame(10);
+    runFrame(110);
+
+    expect(firstEnd).not.toHaveBeenCalled();
+    expect(onFrame).toHaveBeenLastCalledWith(0.8);
+  });
+});
+
+describe('ZoomManager with a transition', () => {
+  const config = {
+    strategy: 'css-variables' as const,
+    transition: { duration: 100, easing: 'linear' as const },
+    windows: { enabled: true, zoomLevel: 1 }
+  };
+  const scaleFactor = () => document.documentElement.style.getPropertyValue('--scale-factor');
+
+  it('animates changes after the first apply and reports the end', () => {
+    const manager = new ZoomManager(ConfigManager.mergeConfig(config));
+    const onEnd = jest.fn();
+    manager.on('animationend', onEnd);
+
+    manager.apply('windows');
+    expect(scaleFactor()).toBe('1');
+
+    manager.setZoom('windows', 1.5);
+    expect(manager.getState().currentZoom).toBe(1.5);
+    runFrame(0);
+    runFrame(50);
+    expect(scaleFactor()).toBe('1.25');
+
+    // A new target continues from the level on screen
+    manager.setZoom('windows', 0.75);
+    runFrame(60);
+    expect(scaleFactor()).toBe('1.25');
+    runFrame(160);
+    expect(scaleFactor()).toBe('0.75');
+    expect(onEnd).toHaveBeenCalledTimes(1);
+    expect(onEnd).toHaveBeenCalledWith({ type: 'animationend', from: 1.25, to: 0.75, duration: 100 });
+    manager.destroy();
+  });
+
+  it('jumps straight to the target with prefers-reduced-motion', () => {
+    reducedMotion = true;
+    const manager = new ZoomManager(ConfigManager.mergeConfig(config));
+    manager.apply('windows');
+    manager.setZoom('windows', 1.5);
+    expect(frames.size).toBe(0);
+    expect(scaleFactor()).toBe('1.5');
+    manager.destroy();
+  });
+});
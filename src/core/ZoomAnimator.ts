@@ -0,0 +1,84 @@
+import { EasingFunction } from '../types';
+
+/**
+ * ZoomAnimator - Animates between zoom levels with requestAnimationFrame
+ * Starting a new animation cancels the running one
+ */
+export class ZoomAnimator {
+  private frame: number | null = null;
+
+  /**
+   * Check whether the user asked for reduced motion
+   * @returns {boolean}
+   */
+  static prefersReducedMotion(): boolean {
+    return typeof window !== 'undefined' &&
+           typeof window.matchMedia === 'function' &&
+           window.matchMedia('(prefers-reduced-motion: reduce)').matches;
+  }
+
+  /**
+   * Check whether animation is possible (browser with requestAnimationFrame)
+   * @returns {boolean}
+   */
+  static isSupported(): boolean {
+    return typeof window !== 'undefined' && typeof window.requestAnimationFrame === 'function';
+  }
+
+  /**
+   * Animate from one zoom level to another
+   * @param {number} from - Start level
+   * @param {number} to - Target level
+   * @param {number} duration - Duration in milliseconds
+   * @param {EasingFunction} easing - Easing function
+   * @param {Function} onFrame - Called with the level for every frame
+   * @param {Function} onEnd - Called once the target level is reached (not when cancelled)
+   */
+  animate(
+    from: number,
+    to: number,
+    duration: number,
+    easing: EasingFunction,
+    onFrame: (level: number) => void,
+    onEnd: () => void
+  ): void {
+    this.cancel();
+
+    let start: number | null = null;
+    const step = (timestamp: number) => {
+      if (start === null) {
+        start = timestamp;
+      }
+
+      const progress = Math.min((timestamp - start) / duration, 1);
+      onFrame(progress === 1 ? to : from + (to - from) * easing(progress));
+
+      if (progress < 1) {
+        this.frame = window.requestAnimationFrame(step);
+      } else {
+        this.frame = null;
+        onEnd();
+      }
+    };
+
+    this.frame = window.requestAnimationFrame(step);
+  }
+
+  /**
+   * Stop the running animation where it is
+   */
+  cancel(): void {
+    if (this.frame !== null) {
+      window.cancelAnimationFrame(this.frame);
+      this.frame = null;
+    }
+  }
+
+  /**
+   * Check whether an animation is running
+   * @returns {boolean}
+   */
+  isRunning(): boolean {
+    return this.frame !== null;
+  }
+}
@@ -0,0 +1,252 @@
+/**
+ * @jest-environment jsdom
+ */
+import { ZoomManager } from './ZoomManager';
+import { ConfigManager } from './ConfigManager';
+import { OSDetector } from './OSDetector';
+import { OSDetectionResult, ZoomControllerConfig } from '../types';
+
+const windows11: OSDetectionResult = { os: 'windows', version: '11', isMobile: false, deviceClass: 'desktop', browser: 'Chrome' };
+
+function createManager(config: ZoomControllerConfig): ZoomManager {
+  return new ZoomManager(ConfigManager.mergeConfig(config));
+}
+
+describe('ZoomManager.explain', () => {
+  // Every source configured, so removing the winner shows the next one in line
+  const full: ZoomControllerConfig = {
+    windows: { enabled: true, zoomLevel: 0.9, versions: { '11': 0.85 } },
+    devices: { desktop: { enabled: true, zoomLevel: 0.95 } },
+    rules: [{ name: 'windows-chrome', when: { os: 'windows', browser: 'Chrome' }, zoomLevel: 0.8 }]
+  };
+
+  it('prefers the user preference over everything else', () => {
+    const manager = createManager(full);
+    manager.setZoom('windows', 1.25);
+    expect(manager.explain(windows11)).toMatchObject({ source: 'preference', zoomLevel: 1.25, enabled: true });
+    manager.destroy();
+  });
+
+  it('prefers a matching rule over version, device and OS config', () => {
+    const explanation = createManager(full).explain(windows11);
+    expect(explanation).toMatchObject({ source: 'rule', zoomLevel: 0.8, rule: full.rules![0] });
+    expect(explanation.reason).toContain("'windows-chrome'");
+  });
+
+  it('prefers the version config over device and OS config', () => {
+    const explanation = createManager({ ...full, rules: [] }).explain(windows11);
+    expect(explanation).toMatchObject({ source: 'version', zoomLevel: 0.85 });
+  });
+
+  it('prefers the device config over the OS config', () => {
+    const explanation = createManager({ ...full, rules: [] }).explain({ ...windows11, version: '10' });
+    expect(explanation).toMatchObject({ source: 'device', zoomLevel: 0.95 });
+  });
+
+  it('falls back to the OS config', () => {
+    const explanation = createManager({ windows: { enabled: true, zoomLevel: 0.9 } }).explain(windows11);
+    expect(explanation).toMatchObject({ source: 'os', zoomLevel: 0.9, enabled: true });
+  });
+
+  it('reports zoom as disabled when nothing enables it', () => {
+    const manager = createManager({});
+    expect(manager.explain(windows11)).toMatchObject({ source: 'os', enabled: false });
+    expect(manager.resolveZoom(windows11)).toBeNull();
+  });
+
+  it('lets a matching rule enable zoom for a disabled OS', () => {
+    const manager = createManager({ rules: [{ when: { os: 'windows' }, zoomLevel: 0.9 }] });
+    expect(manager.explain(windows11)).toMatchObject({ source: 'rule', enabled: true, zoomLevel: 0.9 });
+  });
+
+  it('picks the most specific rule under the most-specific policy', () => {
+    const rules = [
+      { name: 'any-windows', when: { os: 'windows' as const }, zoomLevel: 0.9 },
+      { name: 'windows-11', when: { os: 'windows' as const, osVersion: '11' }, zoomLevel: 0.8 }
+    ];
+    expect(createManager({ rules }).explain(windows11).rule?.name).toBe('any-windows');
+    expect(createManager({ rules, ruleResolution: 'most-specific' }).explain(windows11).rule?.name).toBe('windows-11');
+  });
+
+  it('lists every rule evaluation', () => {
+    const explanation = createManager({
+      rules: [
+        { when: { os: 'macos' }, zoomLevel: 1.1 },
+        { when: { os: 'windows' }, zoomLevel: 0.9 }
+      ]
+    }).explain(windows11);
+    expect(explanation.evaluations.map((evaluation) => evaluation.matched)).toEqual([false, true]);
+  });
+});
+
+describe('ZoomManager events', () => {
+  const config: ZoomControllerConfig = { windows: { enabled: true, zoomLevel: 0.9 } };
+
+  it('reports changes with previous and next state and the cause', () => {
+    const manager = createManager(config);
+    const listener = jest.fn();
+    manager.subscribe(listener);
+
+    manager.apply(windows11);
+    manager.setZoom('windows', 1.1);
+    manager.zoomIn();
+    manager.resetToDefault();
+    manager.reset();
+
+    expect(listener.mock.calls.map(([event]) => [event.cause, event.previous.currentZoom, event.next.currentZoom])).toEqual([
+      ['apply', 1, 0.9],
+      ['setZoom', 0.9, 1.1],
+      ['step', 1.1, 1.25],
+      ['resetToDefault', 1.25, 0.9],
+      ['reset', 0.9, 1]
+    ]);
+    manager.destroy();
+  });
+
+  it('skips change events that change nothing but still emits apply', () => {
+    const manager = createManager(config);
+    const change = jest.fn();
+    const apply = jest.fn();
+    manager.apply(windows11);
+    manager.on('change', change);
+    manager.on('apply', apply);
+
+    manager.apply(windows11);
+    expect(change).not.toHaveBeenCalled();
+    expect(apply).toHaveBeenCalledWith(expect.objectContaining({ type: 'apply', cause: 'apply' }));
+  });
+
+  it('stops calling removed listeners', () => {
+    const manager = createManager(config);
+    const listener = jest.fn();
+    const unsubscribe = manager.subscribe(listener);
+    const reset = jest.fn();
+    manager.on('reset', reset);
+
+    unsubscribe();
+    manager.off('reset', reset);
+    manager.apply(windows11);
+    manager.reset();
+    expect(listener).not.toHaveBeenCalled();
+    expect(reset).not.toHaveBeenCalled();
+  });
+
+  it('keeps notifying the others when a listener throws', () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const manager = createManager(config);
+    const listener = jest.fn();
+    manager.subscribe(() => {
+      throw new Error('listener failed');
+    });
+    manager.subscribe(listener);
+
+    manager.apply(windows11);
+    expect(listener).toHaveBeenCalledTimes(1);
+    error.mockRestore();
+  });
+
+  it('hands out copies of the state', () => {
+    const manager = createManager(config);
+    manager.apply(windows11);
+    const state = manager.getState();
+    state.currentZoom = 2;
+    expect(manager.getState().currentZoom).toBe(0.9);
+  });
+});
+
+describe('ZoomManager device classes', () => {
+  const ipad: OSDetectionResult = { os: 'ipados', isMobile: true, deviceClass: 'tablet' };
+
+  it('applies the device class config for an OS that is not enabled', () => {
+    const manager = createManager({ devices: { tablet: { enabled: true, zoomLevel: 1.1 } } });
+    manager.apply(ipad);
+    expect(manager.getState()).toMatchObject({ appliedOS: 'ipados', currentZoom: 1.1, isActive: true });
+  });
+
+  it('configures the new platforms on their own', () => {
+    const manager = createManager({ ipados: { enabled: true, zoomLevel: 0.9 }, ios: { enabled: true, zoomLevel: 0.8 } });
+    expect(manager.resolveZoom(ipad)).toBe(0.9);
+    expect(manager.resolveZoom({ os: 'chromeos', isMobile: false })).toBeNull();
+  });
+});
+
+describe('ZoomManager watch mode', () => {
+  const desktop: OSDetectionResult = { ...windows11, deviceClass: 'desktop' };
+  const tablet: OSDetectionResult = { ...windows11, deviceClass: 'tablet', isMobile: true };
+  let detect: jest.SpyInstance;
+  let manager: ZoomManager;
+
+  // Lets the debounced, async re-detection finish
+  const settle = async () => {
+    jest.advanceTimersByTime(100);
+    await Promise.resolve();
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    window.matchMedia = ((media: string) => ({ media, matches: false, addEventListener: () => {}, removeEventListener: () => {} })) as any;
+    detect = jest.spyOn(OSDetector, 'detect').mockReturnValue(desktop);
+    manager = createManager({
+      strategy: 'css-variables',
+      watch: { debounce: 100 },
+      windows: { enabled: true, zoomLevel: 0.9 },
+      macos: { enabled: true, zoomLevel: 1.1 },
+      devices: { tablet: { enabled: true, zoomLevel: 1.25 } }
+    });
+  });
+
+  afterEach(() => {
+    manager.destroy();
+    detect.mockRestore();
+    jest.useRealTimers();
+  });
+
+  it('re-detects on environment changes and re-applies the new zoom', async () => {
+    const onDetection = jest.fn();
+    const onChange = jest.fn();
+    manager.on('detectionchange', onDetection);
+    manager.apply(desktop);
+    manager.subscribe(onChange);
+
+    detect.mockReturnValue(tablet);
+    window.dispatchEvent(new Event('resize'));
+    await settle();
+
+    expect(onDetection).toHaveBeenCalledWith({ type: 'detectionchange', previous: desktop, next: tablet });
+    expect(manager.getState().currentZoom).toBe(1.25);
+    expect(onChange).toHaveBeenLastCalledWith(expect.objectContaining({ cause: 'detection' }));
+  });
+
+  it('stays quiet when detection finds the same environment', async () => {
+    const onDetection = jest.fn();
+    manager.on('detectionchange', onDetection);
+    manager.apply(desktop);
+
+    detect.mockReturnValue({ ...desktop });
+    window.dispatchEvent(new Event('resize'));
+    await settle();
+    expect(onDetection).not.toHaveBeenCalled();
+    expect(manager.getState().currentZoom).toBe(0.9);
+  });
+
+  it('leaves an OS applied by hand alone', async () => {
+    manager.apply(desktop);
+    manager.apply('macos');
+    detect.mockClear();
+
+    window.dispatchEvent(new Event('resize'));
+    await settle();
+    expect(detect).not.toHaveBeenCalled();
+  });
+
+  it('does not watch without the option', async () => {
+    const unwatched = createManager({ windows: { enabled: true, zoomLevel: 0.9 } });
+    unwatched.apply(desktop);
+    detect.mockClear();
+
+    window.dispatchEvent(new Event('resize'));
+    await settle();
+    expect(detect).not.toHaveBeenCalled();
+    unwatched.destroy();
+  });
+});
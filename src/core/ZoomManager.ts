@@ -1,102 +1,445 @@
-import { ZoomState, OS, OSZoomConfig, ZoomControllerConfig } from '../types';
+import {
+  ZoomState,
+  OS,
+  OSZoomConfig,
+  ZoomControllerConfig,
+  ZoomChangeCause,
+  ZoomEventMap,
+  ZoomEventListener,
+  ZoomPreference,
+  OSDetectionResult,
+  ZoomExplanation,
+  NativeZoomReading
+} from '../types';
 import { CSSVariables } from '../utils/cssVariables';
+import { PreferenceStore } from './PreferenceStore';
+import { KeyboardShortcuts } from './KeyboardShortcuts';
+import { ZoomStrategy, createZoomStrategy } from './ZoomStrategies';
+import { BreakpointWatcher } from './BreakpointWatcher';
+import { RuleEngine } from './RuleEngine';
+import { ZoomAnimator } from './ZoomAnimator';
+import { NativeZoomMonitor } from './NativeZoomMonitor';
+import { OSZoomConfigError } from './OSZoomConfigError';
+import { OSDetector } from './OSDetector';
+import { getEasing } from '../utils/easing';
+import { getDetectionOptions, removeBootstrapStyle } from '../utils/hydration';
 
 /**
  * ZoomManager - Handles zoom application and management
  */
 export class ZoomManager {
+  static readonly DEFAULT_ZOOM_STEPS = [0.5, 0.67, 0.75, 0.8, 0.9, 1, 1.1, 1.25, 1.5, 1.75, 2];
+  static readonly DEFAULT_MIN_ZOOM = 0.5;
+  static readonly DEFAULT_MAX_ZOOM = 2;
+  private static readonly STEP_EPSILON = 0.001;
+  // OSes that use another OS's config until they are configured themselves
+  private static readonly INHERITED_OS_CONFIG: { [os in OS]?: OS } = { chromeos: 'linux', ipados: 'ios' };
+  // Input devices and display changes that can change the detection result (resize and DPR are always watched)
+  private static readonly DETECTION_QUERIES = ['(pointer: coarse)', '(pointer: none)', '(any-pointer: fine)', '(any-hover: hover)'];
+  // Fields compared to decide whether re-detection found a different environment
+  private static readonly DETECTION_KEYS: Array<keyof OSDetectionResult> = [
+    'os', 'version', 'isMobile', 'deviceClass', 'browser', 'browserVersion', 'engine', 'model'
+  ];
+
   private state: ZoomState;
   private config: ZoomControllerConfig;
   private cssVariables: CSSVariables;
+  private strategy: ZoomStrategy | null;
+  private listeners: Map<keyof ZoomEventMap, Set<(event: any) => void>> = new Map();
+  private preferences: ZoomPreference['levels'] = {};
+  private preferenceStore: PreferenceStore | null = null;
+  private keyboardShortcuts: KeyboardShortcuts | null = null;
+  private detection: OSDetectionResult | null = null;
+  private breakpointWatcher: BreakpointWatcher | null = null;
+  private detectionWatcher: BreakpointWatcher | null = null;
+  private ruleEngine: RuleEngine;
+  private animator: ZoomAnimator = new ZoomAnimator();
+  private displayedZoom = 1;
+  private nativeZoomMonitor: NativeZoomMonitor | null = null;
 
   constructor(config: ZoomControllerConfig = {}) {
     this.config = config;
-    this.cssVariables = new CSSVariables();
+    this.cssVariables = new CSSVariables(config.target, config.tokens);
+    this.strategy = createZoomStrategy(config.strategy || 'css-variables');
+    this.ruleEngine = new RuleEngine(config.rules, config.ruleResolution);
     this.state = {
       currentZoom: 1,
       appliedOS: 'unknown',
-      isActive: false
+      isActive: false,
+      nativeZoom: 1,
+      pinchZoom: 1
     };
+
+    if (config.nativeZoom && config.nativeZoom !== 'ignore') {
+      this.nativeZoomMonitor = new NativeZoomMonitor((reading) => this.handleNativeZoomChange(reading));
+      this.state = { ...this.state, ...this.nativeZoomMonitor.start() };
+    }
+
+    if (config.persist) {
+      this.preferenceStore = new PreferenceStore(config.persist === true ? {} : config.persist);
+      this.preferences = this.preferenceStore.load();
+      this.preferenceStore.onChange((levels) => this.handlePreferenceSync(levels));
+    }
   }
 
   /**
    * Apply zoom based on OS
-   * @param {OS} os - Operating system
+   * Pass the full detection result to enable per-version zoom levels
+   * @param {OS | OSDetectionResult} target - Operating system or detection result
+   * @param {ZoomChangeCause} [cause] - What triggered the apply (reported to listeners)
    */
-  apply(os: OS): void {
-    const osConfig = this.getOSConfig(os);
-    if (!osConfig.enabled) {
+  apply(target: OS | OSDetectionResult, cause: ZoomChangeCause = 'apply'): void {
+    // The client decides from here on, including when it resolves zoom as disabled
+    removeBootstrapStyle();
+    if (typeof target !== 'string') {
+      this.detection = target;
+      this.watchDetection();
+    }
+    const os = typeof target === 'string' ? target : target.os;
+    const zoomLevel = this.resolveZoom(target);
+    if (zoomLevel === null) {
       this.log(`Zoom disabled for ${os}`);
       return;
     }
 
-    this.state.currentZoom = osConfig.zoomLevel;
-    this.state.appliedOS = os;
-    this.state.isActive = true;
+    this.applyZoom(zoomLevel);
+    this.commit({
+      ...this.state,
+      currentZoom: zoomLevel,
+      appliedOS: os,
+      isActive: true
+    }, 'apply', cause);
+    this.watchBreakpoints(os);
+
+    this.log(`Applied ${zoomLevel * 100}% zoom for ${os}`);
+  }
+
+  /**
+   * Work out the zoom level for an OS without applying it (safe on the server)
+   * Precedence: saved user preference, matching rule, matching breakpoint, per-version level,
+   * device class config, OS default
+   * @param {OS | OSDetectionResult} target - Operating system or detection result
+   * @returns {number | null} - Zoom level, or null when zoom is disabled for the OS
+   */
+  resolveZoom(target: OS | OSDetectionResult): number | null {
+    const explanation = this.explain(target);
+    return explanation.enabled ? explanation.zoomLevel : null;
+  }
+
+  /**
+   * Explain how the zoom level is resolved - which rule won and why
+   * @param {OS | OSDetectionResult} [target] - Operating system or detection result (default: last applied)
+   * @returns {ZoomExplanation}
+   */
+  explain(target: OS | OSDetectionResult = this.detection || this.state.appliedOS): ZoomExplanation {
+    const detection = this.toDetection(target);
+    const os = detection.os;
+    const osConfig = this.getOSConfig(os);
+    const deviceConfig = detection.deviceClass ? this.config.devices?.[detection.deviceClass] : undefined;
+    const evaluations = this.ruleEngine.evaluate(RuleEngine.createContext(detection));
+    const winner = this.ruleEngine.pick(evaluations);
+    const base = { os, policy: this.ruleEngine.getPolicy(), evaluations };
+
+    // A matching rule or an enabled device class config applies even when the OS config is disabled
+    const enabled = osConfig.enabled || !!deviceConfig?.enabled || !!winner;
+    const preference = this.preferences[os];
+    if (preference !== undefined) {
+      return { ...base, enabled, zoomLevel: preference, source: 'preference', reason: `User preference for ${os}` };
+    }
+
+    if (winner) {
+      const name = winner.rule.name ? `'${winner.rule.name}'` : `#${evaluations.indexOf(winner) + 1}`;
+      return {
+        ...base,
+        enabled,
+        zoomLevel: winner.rule.zoomLevel,
+        source: 'rule',
+        rule: winner.rule,
+        reason: `Rule ${name} won (${this.ruleEngine.getPolicy()}): ${winner.reasons.join(', ')}`
+      };
+    }
+
+    const breakpointZoom = osConfig.breakpoints ? BreakpointWatcher.resolve(osConfig.breakpoints) : undefined;
+    if (breakpointZoom !== undefined) {
+      return { ...base, enabled, zoomLevel: breakpointZoom, source: 'breakpoint', reason: `Breakpoint matched for ${os}` };
+    }
+
+    const versionZoom = this.getVersionZoom(os, detection.version);
+    if (versionZoom !== undefined) {
+      return { ...base, enabled, zoomLevel: versionZoom, source: 'version', reason: `${os} ${detection.version} version config` };
+    }
 
-    this.applyZoom(osConfig.zoomLevel);
+    if (deviceConfig?.enabled) {
+      return { ...base, enabled, zoomLevel: deviceConfig.zoomLevel, source: 'device', reason: `${detection.deviceClass} device config` };
+    }
 
-    this.log(`Applied ${osConfig.zoomLevel * 100}% zoom for ${os}`);
+    return {
+      ...base,
+      enabled,
+      zoomLevel: osConfig.zoomLevel,
+      source: 'os',
+      reason: enabled ? `${os} config` : `Zoom disabled for ${os} and no rule matched`
+    };
   }
 
   /**
-   * Apply CSS variables zoom
+   * Apply zoom, animated when a transition is configured
+   * Only changes from an already applied zoom animate - the first apply is instant,
+   * and so is every change when the user prefers reduced motion
    * @private
    */
   private applyZoom(zoomLevel: number): void {
-    if (this.config.enableCSS !== false) {
-      this.cssVariables.setScaleFactor(zoomLevel);
+    const transition = this.config.transition;
+    const from = this.displayedZoom;
+    const animate = !!transition && transition.duration > 0 &&
+                    this.state.isActive && from !== zoomLevel &&
+                    ZoomAnimator.isSupported() && !ZoomAnimator.prefersReducedMotion();
+
+    if (!animate) {
+      this.animator.cancel();
+      this.renderZoom(zoomLevel);
+      return;
+    }
+
+    // A new target mid-animation continues from the level currently on screen
+    this.animator.animate(
+      from,
+      zoomLevel,
+      transition!.duration,
+      getEasing(transition!.easing),
+      (level) => this.renderZoom(level),
+      () => this.emit('animationend', { type: 'animationend', from, to: zoomLevel, duration: transition!.duration })
+    );
+  }
+
+  /**
+   * Write a zoom level with the configured strategy
+   * The CSS variable is only written for the 'css-variables' strategy so that
+   * stylesheets using --scale-factor are not scaled twice by the other strategies
+   * @private
+   */
+  private renderZoom(zoomLevel: number): void {
+    this.displayedZoom = zoomLevel;
+    const factor = this.getEffectiveZoom(zoomLevel);
+
+    if (!this.strategy) {
+      if (this.config.enableCSS !== false) {
+        this.cssVariables.setScaleFactor(factor);
+      }
+      return;
     }
 
     if (this.config.enableJavaScript !== false) {
-      this.applyJavaScriptZoom(zoomLevel);
+      this.applyJavaScriptZoom(factor);
     }
   }
 
   /**
-   * Apply JavaScript-based zoom (using CSS variables only)
+   * Get the factor to write for a target zoom level
+   * In 'compensate' mode browser zoom is divided out, so 80% under 125% browser zoom writes 0.64.
+   * Pinch zoom is never compensated - it is a deliberate, temporary gesture.
+   * @param {number} zoomLevel - Target zoom level
+   * @returns {number} - Factor written to the page
+   */
+  getEffectiveZoom(zoomLevel: number = this.state.currentZoom): number {
+    if (this.config.nativeZoom !== 'compensate' || this.state.nativeZoom === 1) {
+      return zoomLevel;
+    }
+    return Math.round((zoomLevel / this.state.nativeZoom) * 10000) / 10000;
+  }
+
+  /**
+   * Apply JavaScript-based zoom ('zoom', 'transform' or 'font-size' strategy)
    * @private
    */
   private applyJavaScriptZoom(zoomLevel: number): void {
-    // CSS variables approach - no need for zoom or transform
-    // The CSS variables handle all scaling through calc()
-    // This is more flexible and maintainable
+    const element = this.cssVariables.getRootElement();
+    if (this.strategy && element) {
+      this.strategy.apply(element, zoomLevel);
+    }
+  }
+
+  /**
+   * Undo whatever the configured strategy applied
+   * @private
+   */
+  private resetZoom(): void {
+    removeBootstrapStyle();
+    this.animator.cancel();
+    this.displayedZoom = 1;
+
+    if (!this.strategy) {
+      // Reset CSS variable to 1 (100%)
+      this.cssVariables.setScaleFactor(1);
+      return;
+    }
+
+    const element = this.cssVariables.getRootElement();
+    if (element) {
+      this.strategy.reset(element);
+    }
   }
 
   /**
    * Update zoom dynamically
    * @param {OS} os - Operating system
-   * @param {number} zoomLevel - Zoom level (0.5 - 2.0)
+   * @param {number} zoomLevel - Zoom level (between minZoom and maxZoom)
+   * @throws {OSZoomConfigError} - In strict mode, when the level is out of bounds
    */
   setZoom(os: OS, zoomLevel: number): void {
-    if (zoomLevel < 0.5 || zoomLevel > 2) {
-      this.log('Zoom level must be between 0.5 and 2.0');
+    this.updateZoom(os, zoomLevel, 'setZoom');
+  }
+
+  /**
+   * Step up to the next level on the zoom ladder
+   * @param {OS} [os] - Operating system (defaults to the currently applied OS)
+   */
+  zoomIn(os: OS = this.state.appliedOS): void {
+    const current = this.getZoom(os);
+    const next = this.getZoomSteps().find((step) => step > current + ZoomManager.STEP_EPSILON);
+    if (next === undefined) {
+      this.log('Already at maximum zoom');
+      return;
+    }
+    this.updateZoom(os, next, 'step');
+  }
+
+  /**
+   * Step down to the previous level on the zoom ladder
+   * @param {OS} [os] - Operating system (defaults to the currently applied OS)
+   */
+  zoomOut(os: OS = this.state.appliedOS): void {
+    const current = this.getZoom(os);
+    const previous = this.getZoomSteps().reverse().find((step) => step < current - ZoomManager.STEP_EPSILON);
+    if (previous === undefined) {
+      this.log('Already at minimum zoom');
+      return;
+    }
+    this.updateZoom(os, previous, 'step');
+  }
+
+  /**
+   * Drop the user's chosen level and go back to the configured OS zoom
+   * @param {OS} [os] - Operating system (defaults to the currently applied OS)
+   */
+  resetToDefault(os: OS = this.state.appliedOS): void {
+    this.clearPreference(os);
+    this.apply(os, 'resetToDefault');
+  }
+
+  /**
+   * Get the zoom ladder, sorted and limited to the min/max bounds
+   * @returns {number[]} - Zoom levels
+   */
+  getZoomSteps(): number[] {
+    const { min, max } = this.getBounds();
+    return (this.config.zoomSteps || ZoomManager.DEFAULT_ZOOM_STEPS)
+      .filter((step) => step >= min && step <= max)
+      .sort((a, b) => a - b);
+  }
+
+  /**
+   * Bind the configured keyboard shortcuts (no-op unless `keyboard` is enabled)
+   * They only act - and only suppress the browser's zoom - while zoom is enabled for the OS
+   * @param {OS} os - Detected OS - decides whether Cmd or Ctrl is the modifier
+   */
+  attachKeyboard(os: OS): void {
+    if (!this.config.keyboard) {
       return;
     }
 
-    const config = this.getOSConfig(os);
-    config.zoomLevel = zoomLevel;
-    this.apply(os);
+    this.keyboardShortcuts?.detach();
+    this.keyboardShortcuts = new KeyboardShortcuts(os, {
+      zoomIn: () => this.zoomIn(os),
+      zoomOut: () => this.zoomOut(os),
+      reset: () => this.resetToDefault(os),
+      enabled: () => this.resolveZoom(os) !== null
+    }, this.config.keyboard === true ? {} : this.config.keyboard);
+    this.keyboardShortcuts.attach();
+  }
+
+  /**
+   * Store a user-chosen zoom level and apply it
+   * An invalid level throws in strict mode; otherwise it is clamped to the bounds
+   * (or ignored when not a number) with a warning
+   * @private
+   */
+  private updateZoom(os: OS, zoomLevel: number, cause: ZoomChangeCause): void {
+    const { min, max } = this.getBounds();
+    const valid = typeof zoomLevel === 'number' && isFinite(zoomLevel);
+    if (!valid || zoomLevel < min || zoomLevel > max) {
+      const message = `Zoom level must be between ${min} and ${max}, got ${String(zoomLevel)}`;
+      if (this.config.strict) {
+        throw new OSZoomConfigError([{ path: 'zoomLevel', message, severity: 'error' }]);
+      }
+      if (!valid) {
+        console.warn(`[OSZoom] ${message}; ignored`);
+        return;
+      }
+      zoomLevel = Math.min(max, Math.max(min, zoomLevel));
+      console.warn(`[OSZoom] ${message}; clamped to ${zoomLevel}`);
+    }
+
+    this.preferences = { ...this.preferences, [os]: zoomLevel };
+    this.preferenceStore?.save(this.preferences);
+    this.apply(os, cause);
+  }
+
+  /**
+   * Get the allowed zoom range (minZoom/maxZoom, or the defaults)
+   * @returns {Object} - { min, max }
+   */
+  getBounds(): { min: number; max: number } {
+    return {
+      min: this.config.minZoom ?? ZoomManager.DEFAULT_MIN_ZOOM,
+      max: this.config.maxZoom ?? ZoomManager.DEFAULT_MAX_ZOOM
+    };
   }
 
   /**
-   * Get zoom level for OS
+   * Get zoom level for OS (user preference if set, otherwise the configured level)
    * @param {OS} os - Operating system
    * @returns {number} - Zoom level
    */
   getZoom(os: OS): number {
-    return this.getOSConfig(os).zoomLevel;
+    return this.explain(os).zoomLevel;
+  }
+
+  /**
+   * Forget user-chosen zoom levels (and remove them from storage when persisting)
+   * Does not change the currently applied zoom
+   * @param {OS} [os] - Only forget the preference for this OS
+   */
+  clearPreference(os?: OS): void {
+    if (os) {
+      const { [os]: _removed, ...rest } = this.preferences;
+      this.preferences = rest;
+    } else {
+      this.preferences = {};
+    }
+
+    if (!this.preferenceStore) {
+      return;
+    }
+
+    if (Object.keys(this.preferences).length > 0) {
+      this.preferenceStore.save(this.preferences);
+    } else {
+      this.preferenceStore.clear();
+    }
   }
 
   /**
    * Reset zoom to 100%
    */
   reset(): void {
-    this.state.currentZoom = 1;
-    this.state.isActive = false;
+    this.resetZoom();
 
-    // Reset CSS variable to 1 (100%)
-    this.cssVariables.setScaleFactor(1);
+    this.commit({
+      ...this.state,
+      currentZoom: 1,
+      isActive: false
+    }, 'reset', 'reset');
 
     this.log('Zoom reset to 100%');
   }
@@ -109,8 +452,258 @@ export class ZoomManager {
     return { ...this.state };
   }
 
+  /**
+   * Stop background work (cross-tab sync, keyboard shortcuts, breakpoints, environment watching,
+   * native zoom monitoring), release the target's scale factor and drop all listeners
+   */
+  destroy(): void {
+    this.animator.cancel();
+    this.nativeZoomMonitor?.stop();
+    this.keyboardShortcuts?.detach();
+    this.breakpointWatcher?.stop();
+    this.detectionWatcher?.stop();
+    this.detectionWatcher = null;
+    this.preferenceStore?.destroy();
+    removeBootstrapStyle();
+    if (this.strategy) {
+      this.resetZoom();
+    }
+    this.cssVariables.clearScaleFactor();
+    this.listeners.clear();
+  }
+
+  /**
+   * Subscribe to zoom state changes
+   * @param {ZoomEventListener} listener - Called with previous and next state on every change
+   * @returns {Function} - Unsubscribe function
+   */
+  subscribe(listener: ZoomEventListener<'change'>): () => void {
+    return this.on('change', listener);
+  }
+
+  /**
+   * Listen for a zoom event
+   * @param {string} type - Event name ('change', 'apply', 'reset', 'animationend', 'nativezoomchange' or 'detectionchange')
+   * @param {ZoomEventListener} listener - Event listener
+   * @returns {Function} - Function that removes the listener
+   */
+  on<K extends keyof ZoomEventMap>(type: K, listener: ZoomEventListener<K>): () => void {
+    let listeners = this.listeners.get(type);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(type, listeners);
+    }
+    listeners.add(listener);
+    return () => this.off(type, listener);
+  }
+
+  /**
+   * Remove a zoom event listener
+   * @param {string} type - Event name
+   * @param {ZoomEventListener} listener - Listener previously passed to on()
+   */
+  off<K extends keyof ZoomEventMap>(type: K, listener: ZoomEventListener<K>): void {
+    this.listeners.get(type)?.delete(listener);
+  }
+
+  /**
+   * Replace the state and notify listeners
+   * 'change' only fires when the state actually differs; the typed event (if any) always fires
+   * @private
+   */
+  private commit(next: ZoomState, type: 'apply' | 'reset' | null, cause: ZoomChangeCause): void {
+    const previous = this.state;
+    this.state = next;
+
+    const changed = previous.currentZoom !== next.currentZoom ||
+                    previous.appliedOS !== next.appliedOS ||
+                    previous.isActive !== next.isActive ||
+                    previous.nativeZoom !== next.nativeZoom ||
+                    previous.pinchZoom !== next.pinchZoom;
+
+    if (changed) {
+      this.emit('change', { type: 'change', previous: { ...previous }, next: { ...next }, cause });
+    }
+    if (type) {
+      this.emit(type, { type, previous: { ...previous }, next: { ...next }, cause });
+    }
+  }
+
+  /**
+   * Dispatch an event to its listeners
+   * A throwing listener is logged and does not stop the others
+   * @private
+   */
+  private emit<K extends keyof ZoomEventMap>(type: K, event: ZoomEventMap[K]): void {
+    const listeners = this.listeners.get(type);
+    if (!listeners) {
+      return;
+    }
+
+    Array.from(listeners).forEach((listener) => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`[OSZoom] Error in '${type}' listener:`, error);
+      }
+    });
+  }
+
+  /**
+   * Record a new browser/pinch zoom reading and, in 'compensate' mode, re-render
+   * the current level so the combined zoom stays on target
+   * @private
+   */
+  private handleNativeZoomChange(reading: NativeZoomReading): void {
+    const previous: NativeZoomReading = { nativeZoom: this.state.nativeZoom, pinchZoom: this.state.pinchZoom };
+    this.commit({ ...this.state, ...reading }, null, 'nativezoom');
+    this.emit('nativezoomchange', { type: 'nativezoomchange', previous, next: { ...reading } });
+    this.log(`Browser zoom ${reading.nativeZoom * 100}%, pinch zoom ${reading.pinchZoom * 100}%`);
+
+    if (this.config.nativeZoom === 'compensate' && this.state.isActive && previous.nativeZoom !== reading.nativeZoom) {
+      this.animator.cancel();
+      this.renderZoom(this.state.currentZoom);
+    }
+  }
+
+  /**
+   * Apply preferences changed in another tab
+   * @private
+   */
+  private handlePreferenceSync(levels: ZoomPreference['levels']): void {
+    this.preferences = levels;
+    this.log('Zoom preference synced from another tab');
+
+    if (this.state.isActive) {
+      this.apply(this.state.appliedOS, 'sync');
+    }
+  }
+
+  /**
+   * Use the last detection result for its OS; a bare OS otherwise
+   * @private
+   */
+  private toDetection(target: OS | OSDetectionResult): OSDetectionResult {
+    if (typeof target !== 'string') {
+      return target;
+    }
+    return this.detection?.os === target ? this.detection : { os: target, isMobile: false };
+  }
+
+  /**
+   * Re-evaluate breakpoints when the viewport, DPR or orientation changes
+   * Only runs for an OS that has breakpoints configured
+   * @private
+   */
+  private watchBreakpoints(os: OS): void {
+    const breakpoints = this.getOSConfig(os).breakpoints;
+    if (!breakpoints || breakpoints.length === 0) {
+      this.breakpointWatcher?.stop();
+      return;
+    }
+
+    if (!this.breakpointWatcher) {
+      this.breakpointWatcher = new BreakpointWatcher(
+        () => this.handleBreakpointChange(),
+        this.config.breakpointDebounce
+      );
+    }
+    this.breakpointWatcher.watch(breakpoints);
+  }
+
+  /**
+   * Re-apply when a different breakpoint matches
+   * @private
+   */
+  private handleBreakpointChange(): void {
+    if (!this.state.isActive || this.getZoom(this.state.appliedOS) === this.state.currentZoom) {
+      return;
+    }
+    this.log('Breakpoint changed');
+    this.apply(this.state.appliedOS, 'breakpoint');
+  }
+
+  /**
+   * Re-detect when the display or input devices change (`watch` mode)
+   * Starts with the first apply() of a detection result; applying a bare OS is left alone
+   * @private
+   */
+  private watchDetection(): void {
+    if (!this.config.watch || this.detectionWatcher) {
+      return;
+    }
+
+    this.detectionWatcher = new BreakpointWatcher(
+      () => this.handleDetectionChange(),
+      typeof this.config.watch === 'object' ? this.config.watch.debounce : undefined
+    );
+    this.detectionWatcher.watchMedia(ZoomManager.DETECTION_QUERIES);
+  }
+
+  /**
+   * Run detection again, report a different result and re-apply the zoom it resolves to
+   * @private
+   */
+  private async handleDetectionChange(): Promise<void> {
+    const previous = this.detection;
+    // Nothing detected yet, or another OS was applied by hand since
+    if (!previous || (this.state.isActive && this.state.appliedOS !== previous.os)) {
+      return;
+    }
+
+    OSDetector.invalidate();
+    const options = getDetectionOptions(this.config);
+    const next = this.config.clientHints ? await OSDetector.detectAsync(options) : OSDetector.detect(options);
+    // Destroyed, or applied with another result while Client Hints were pending
+    if (!this.detectionWatcher || this.detection !== previous) {
+      return;
+    }
+
+    const changed = ZoomManager.DETECTION_KEYS.some((key) => previous[key] !== next[key]);
+    const detection = changed ? next : previous;
+    if (changed) {
+      this.detection = next;
+      this.log(`Detection changed: ${previous.os}/${previous.deviceClass} -> ${next.os}/${next.deviceClass}`);
+      this.emit('detectionchange', { type: 'detectionchange', previous, next });
+      if (this.keyboardShortcuts && previous.os !== next.os) {
+        this.attachKeyboard(next.os);
+      }
+    }
+
+    // A rule or device config can resolve differently on the new display even for the same result
+    const zoomLevel = this.resolveZoom(detection);
+    if (zoomLevel === null) {
+      if (changed && this.state.isActive) {
+        this.reset();
+      }
+      return;
+    }
+    if (changed || (this.state.isActive && zoomLevel !== this.state.currentZoom)) {
+      this.apply(detection, 'detection');
+    }
+  }
+
+  /**
+   * Get the zoom configured for the detected OS version
+   * Keys match the version exactly or as a prefix ('14' matches '14.2.1'); the longest key wins
+   * @private
+   */
+  private getVersionZoom(os: OS, version?: string): number | undefined {
+    const versions = this.getOSConfig(os).versions;
+    if (!versions || !version) {
+      return undefined;
+    }
+
+    const match = Object.keys(versions)
+      .filter((key) => version === key || version.startsWith(`${key}.`))
+      .sort((a, b) => b.length - a.length)[0];
+
+    return match !== undefined ? versions[match] : undefined;
+  }
+
   /**
    * Get OS configuration
+   * chromeos and ipados fall back to the linux and ios configs
    * @private
    */
   private getOSConfig(os: OS): OSZoomConfig {
@@ -118,8 +711,9 @@ export class ZoomManager {
       enabled: true,
       zoomLevel: 1
     };
+    const inherited = ZoomManager.INHERITED_OS_CONFIG[os];
 
-    return (this.config as any)[os] || defaultConfig;
+    return (this.config as any)[os] || (inherited && (this.config as any)[inherited]) || defaultConfig;
   }
 
   /**
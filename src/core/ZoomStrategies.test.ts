@@ -0,0 +1,132 @@
+/**
+ * @jest-environment jsdom
+ */
+import { createZoomStrategy, NativeZoomStrategy, TransformStrategy, FontSizeStrategy } from './ZoomStrategies';
+import { ZoomManager } from './ZoomManager';
+import { ConfigManager } from './ConfigManager';
+
+// jsdom drops the `zoom` property, so the native strategy writes to a plain declaration store
+function fakeStyledElement(initial: Record<string, string> = {}): HTMLElement {
+  const values = new Map(Object.entries(initial));
+  return {
+    style: {
+      getPropertyValue: (property: string) => values.get(property) ?? '',
+      getPropertyPriority: () => '',
+      setProperty: (property: string, value: string) => values.set(property, value),
+      removeProperty: (property: string) => values.delete(property)
+    }
+  } as unknown as HTMLElement;
+}
+
+describe('createZoomStrategy', () => {
+  it('creates a strategy per name and none for css-variables', () => {
+    expect(createZoomStrategy('zoom')).toBeInstanceOf(NativeZoomStrategy);
+    expect(createZoomStrategy('transform')).toBeInstanceOf(TransformStrategy);
+    expect(createZoomStrategy('font-size')).toBeInstanceOf(FontSizeStrategy);
+    expect(createZoomStrategy('css-variables')).toBeNull();
+  });
+});
+
+describe('NativeZoomStrategy', () => {
+  it('sets zoom and puts the original value back', () => {
+    const element = fakeStyledElement({ zoom: '1.5' });
+    const strategy = new NativeZoomStrategy();
+    strategy.apply(element, 0.8);
+    expect(element.style.getPropertyValue('zoom')).toBe('0.8');
+    strategy.apply(element, 0.9);
+    strategy.reset(element);
+    expect(element.style.getPropertyValue('zoom')).toBe('1.5');
+  });
+});
+
+describe('TransformStrategy', () => {
+  afterEach(() => {
+    document.body?.removeAttribute('style');
+  });
+
+  it('scales the element and compensates its size', () => {
+    const element = document.createElement('div');
+    const strategy = new TransformStrategy();
+    strategy.apply(element, 0.5);
+    expect(element.style.transform).toBe('scale(0.5)');
+    expect(element.style.width).toBe('200%');
+    expect(element.style.height).toBe('200%');
+
+    strategy.reset(element);
+    expect(element.getAttribute('style')).toBe('');
+  });
+
+  it('scales the page root through <body>', () => {
+    const strategy = new TransformStrategy();
+    strategy.apply(document.documentElement, 0.8);
+    expect(document.body.style.transform).toBe('scale(0.8)');
+    expect(document.documentElement.style.transform).toBe('');
+    strategy.reset(document.documentElement);
+    expect(document.body.style.transform).toBe('');
+  });
+
+  describe('before <body> exists', () => {
+    let body: HTMLElement;
+
+    beforeEach(() => {
+      body = document.body;
+      body.remove();
+    });
+
+    afterEach(() => {
+      if (!document.body) {
+        document.documentElement.appendChild(body);
+      }
+    });
+
+    it('applies the latest factor once the document is parsed', () => {
+      const strategy = new TransformStrategy();
+      strategy.apply(document.documentElement, 0.8);
+      strategy.apply(document.documentElement, 0.9);
+
+      document.documentElement.appendChild(body);
+      document.dispatchEvent(new Event('DOMContentLoaded'));
+      expect(body.style.transform).toBe('scale(0.9)');
+      strategy.reset(document.documentElement);
+    });
+
+    it('drops the deferred factor on reset', () => {
+      const strategy = new TransformStrategy();
+      strategy.apply(document.documentElement, 0.8);
+      strategy.reset(document.documentElement);
+
+      document.documentElement.appendChild(body);
+      document.dispatchEvent(new Event('DOMContentLoaded'));
+      expect(body.style.transform).toBe('');
+    });
+  });
+});
+
+describe('FontSizeStrategy', () => {
+  it('scales the font size as a percentage and restores an inline size', () => {
+    const element = document.createElement('div');
+    element.style.fontSize = '20px';
+    const strategy = new FontSizeStrategy();
+    strategy.apply(element, 0.9);
+    expect(element.style.fontSize).toBe('90%');
+    strategy.reset(element);
+    expect(element.style.fontSize).toBe('20px');
+  });
+});
+
+describe('ZoomManager strategies', () => {
+  it('undoes exactly what the strategy applied on reset', () => {
+    document.documentElement.style.fontSize = '18px';
+    const manager = new ZoomManager(ConfigManager.mergeConfig({
+      strategy: 'font-size',
+      windows: { enabled: true, zoomLevel: 0.8 }
+    }));
+
+    manager.apply('windows');
+    expect(document.documentElement.style.fontSize).toBe('80%');
+    manager.reset();
+    expect(document.documentElement.style.fontSize).toBe('18px');
+    manager.destroy();
+    document.documentElement.removeAttribute('style');
+  });
+});
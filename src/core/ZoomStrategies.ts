@@ -0,0 +1,173 @@
+import { ZoomStrategyName } from '../types';
+
+/**
+ * ZoomStrategy - Applies a zoom factor to an element by JavaScript
+ * reset() must undo exactly what apply() changed
+ */
+export interface ZoomStrategy {
+  apply(element: HTMLElement, factor: number): void;
+  reset(element: HTMLElement): void;
+}
+
+/**
+ * Base class for strategies that write inline styles
+ * Remembers the inline values it overwrites so reset() can put them back
+ */
+abstract class InlineStyleStrategy implements ZoomStrategy {
+  private saved: WeakMap<HTMLElement, Map<string, { value: string; priority: string }>> = new WeakMap();
+
+  abstract apply(element: HTMLElement, factor: number): void;
+
+  reset(element: HTMLElement): void {
+    const target = this.getStyledElement(element);
+    const saved = this.saved.get(target);
+    if (!saved) {
+      return;
+    }
+
+    saved.forEach(({ value, priority }, property) => {
+      if (value) {
+        target.style.setProperty(property, value, priority);
+      } else {
+        target.style.removeProperty(property);
+      }
+    });
+    this.saved.delete(target);
+  }
+
+  /**
+   * Get the element the styles are written to
+   */
+  protected getStyledElement(element: HTMLElement): HTMLElement {
+    return element;
+  }
+
+  /**
+   * Write inline styles, saving the original values the first time
+   */
+  protected setStyles(element: HTMLElement, styles: Record<string, string>): void {
+    let saved = this.saved.get(element);
+    if (!saved) {
+      saved = new Map();
+      this.saved.set(element, saved);
+    }
+
+    Object.keys(styles).forEach((property) => {
+      if (!saved!.has(property)) {
+        saved!.set(property, {
+          value: element.style.getPropertyValue(property),
+          priority: element.style.getPropertyPriority(property)
+        });
+      }
+      element.style.setProperty(property, styles[property]);
+    });
+  }
+}
+
+/**
+ * NativeZoomStrategy - Uses the CSS `zoom` property
+ */
+export class NativeZoomStrategy extends InlineStyleStrategy {
+  apply(element: HTMLElement, factor: number): void {
+    this.setStyles(element, { zoom: factor.toString() });
+  }
+}
+
+/**
+ * TransformStrategy - Uses `transform: scale()` with compensating width/height
+ * so the scaled content still fills its container. The page root is scaled through <body>;
+ * before <body> exists (script in <head>) the latest factor is applied on DOMContentLoaded.
+ */
+export class TransformStrategy extends InlineStyleStrategy {
+  private pendingFactor: number | null = null;
+  private waiting = false;
+
+  apply(element: HTMLElement, factor: number): void {
+    if (this.isBodyMissing(element)) {
+      this.defer(factor);
+      return;
+    }
+
+    const compensation = `${100 / factor}%`;
+    this.setStyles(this.getStyledElement(element), {
+      transform: `scale(${factor})`,
+      'transform-origin': '0 0',
+      width: compensation,
+      height: compensation
+    });
+  }
+
+  reset(element: HTMLElement): void {
+    if (this.isBodyMissing(element)) {
+      // Nothing written yet - just drop the deferred factor
+      this.pendingFactor = null;
+      return;
+    }
+    super.reset(element);
+  }
+
+  protected getStyledElement(element: HTMLElement): HTMLElement {
+    return element === document.documentElement ? document.body : element;
+  }
+
+  /**
+   * The page root is scaled through <body>, which does not exist while <head> is parsed
+   * @private
+   */
+  private isBodyMissing(element: HTMLElement): boolean {
+    return element === document.documentElement && !document.body;
+  }
+
+  /**
+   * Remember the factor and apply it once the document has a body
+   * @private
+   */
+  private defer(factor: number): void {
+    this.pendingFactor = factor;
+    if (!this.waiting) {
+      this.waiting = true;
+      document.addEventListener('DOMContentLoaded', this.applyPending, { once: true });
+    }
+  }
+
+  /**
+   * Apply the deferred factor (unless it was reset meanwhile)
+   * @private
+   */
+  private applyPending = (): void => {
+    const factor = this.pendingFactor;
+    this.waiting = false;
+    this.pendingFactor = null;
+    if (factor !== null) {
+      this.apply(document.documentElement, factor);
+    }
+  };
+}
+
+/**
+ * FontSizeStrategy - Scales `font-size` for rem/em-based layouts
+ * Uses a percentage so the user's default font size is still respected
+ */
+export class FontSizeStrategy extends InlineStyleStrategy {
+  apply(element: HTMLElement, factor: number): void {
+    this.setStyles(element, { 'font-size': `${factor * 100}%` });
+  }
+}
+
+/**
+ * Create the JavaScript strategy for a strategy name
+ * @param {ZoomStrategyName} name - Strategy name
+ * @returns {ZoomStrategy | null} - null for 'css-variables', which is handled by CSSVariables
+ */
+export function createZoomStrategy(name: ZoomStrategyName): ZoomStrategy | null {
+  switch (name) {
+    case 'zoom':
+      return new NativeZoomStrategy();
+    case 'transform':
+      return new TransformStrategy();
+    case 'font-size':
+      return new FontSizeStrategy();
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,11 @@
+// Web component entry point
+// Importing this module registers <os-zoom-control>
+
+import { defineOSZoomControl } from './adapters/WebComponentAdapter';
+
+export { OSZoomControl, defineOSZoomControl } from './adapters/WebComponentAdapter';
+export type { OSZoomControlVariant, OSZoomControlPreset } from './adapters/WebComponentAdapter';
+export { OSZoom } from './adapters/VanillaAdapter';
+export type { ZoomControllerConfig, ZoomChangeEvent, ZoomState } from './types';
+
+defineOSZoomControl();
@@ -0,0 +1,275 @@
+import { DeviceFixture, EnvironmentSnapshot } from '../types';
+
+/**
+ * Snapshot of a desktop without touch or browser-specific globals, overridden per device
+ * @private
+ */
+function environment(
+  overrides: Partial<Omit<EnvironmentSnapshot, 'css' | 'globals'>> & {
+    css?: Partial<EnvironmentSnapshot['css']>;
+    globals?: Partial<EnvironmentSnapshot['globals']>;
+  }
+): EnvironmentSnapshot {
+  return {
+    platform: '',
+    userAgentDataPlatform: '',
+    pointer: 'fine',
+    brands: [],
+    maxTouchPoints: 0,
+    touchEvents: false,
+    touchEventConstructor: false,
+    standalone: false,
+    screen: { width: 1920, height: 1080 },
+    viewport: { width: 1920, height: 969 },
+    devicePixelRatio: 1,
+    ...overrides,
+    css: { touchCallout: false, webkitAppearance: true, mozAppearance: false, ...overrides.css },
+    globals: {
+      chrome: false,
+      chromeRuntime: false,
+      opr: false,
+      brave: false,
+      gestureEvent: false,
+      installTrigger: false,
+      safari: false,
+      styleMedia: false,
+      webkit: false,
+      activeX: false,
+      ...overrides.globals
+    }
+  };
+}
+
+/**
+ * Client Hints brands as Chromium browsers send them, GREASE brand included
+ * @private
+ */
+function brands(brand: string, version: string, chromium: string = version) {
+  return [
+    { brand: 'Not_A Brand', version: '8' },
+    { brand: 'Chromium', version: chromium },
+    { brand, version }
+  ];
+}
+
+/**
+ * Environment snapshots captured with OSDetector.snapshot() on real devices
+ * Run OSDetector.detectFrom() over them to check detection accuracy; add the reporter's
+ * snapshot here when a detection bug comes in.
+ */
+export const DEVICE_FIXTURES: DeviceFixture[] = [
+  {
+    name: 'Windows 11 desktop - Chrome',
+    environment: environment({
+      platform: 'Win32',
+      userAgentDataPlatform: 'Windows',
+      brands: brands('Google Chrome', '120'),
+      globals: { chrome: true }
+    }),
+    expected: { os: 'windows', isMobile: false, deviceClass: 'desktop', browser: 'Chrome', engine: 'Blink' }
+  },
+  {
+    name: 'Windows 11 laptop - Firefox',
+    environment: environment({
+      platform: 'Win32',
+      screen: { width: 1536, height: 864 },
+      viewport: { width: 1536, height: 747 },
+      devicePixelRatio: 1.25,
+      css: { mozAppearance: true }
+    }),
+    expected: { os: 'windows', isMobile: false, deviceClass: 'desktop', browser: 'Firefox', engine: 'Gecko' }
+  },
+  {
+    name: 'Surface Pro 9 - Edge',
+    environment: environment({
+      platform: 'Win32',
+      userAgentDataPlatform: 'Windows',
+      maxTouchPoints: 10,
+      touchEvents: true,
+      touchEventConstructor: true,
+      screen: { width: 1440, height: 960 },
+      viewport: { width: 1440, height: 849 },
+      devicePixelRatio: 2,
+      brands: brands('Microsoft Edge', '120'),
+      globals: { chrome: true }
+    }),
+    expected: { os: 'windows', isMobile: false, deviceClass: 'desktop', browser: 'Edge', engine: 'Blink' }
+  },
+  {
+    name: 'MacBook Pro 14" - Safari 17',
+    environment: environment({
+      platform: 'MacIntel',
+      standalone: true,
+      screen: { width: 1512, height: 982 },
+      viewport: { width: 1512, height: 862 },
+      devicePixelRatio: 2,
+      globals: { safari: true, gestureEvent: true }
+    }),
+    expected: { os: 'macos', isMobile: false, deviceClass: 'desktop', browser: 'Safari', engine: 'WebKit' }
+  },
+  {
+    name: 'MacBook Air - Chrome',
+    environment: environment({
+      platform: 'MacIntel',
+      userAgentDataPlatform: 'macOS',
+      screen: { width: 1470, height: 956 },
+      viewport: { width: 1470, height: 835 },
+      devicePixelRatio: 2,
+      brands: brands('Google Chrome', '120'),
+      globals: { chrome: true }
+    }),
+    expected: { os: 'macos', isMobile: false, deviceClass: 'desktop', browser: 'Chrome', engine: 'Blink' }
+  },
+  {
+    name: 'Windows 11 desktop - Opera',
+    environment: environment({
+      platform: 'Win32',
+      userAgentDataPlatform: 'Windows',
+      brands: brands('Opera', '106', '120'),
+      globals: { chrome: true, opr: true }
+    }),
+    expected: { os: 'windows', isMobile: false, deviceClass: 'desktop', browser: 'Opera', engine: 'Blink' }
+  },
+  {
+    name: 'MacBook Pro - Brave',
+    environment: environment({
+      platform: 'MacIntel',
+      userAgentDataPlatform: 'macOS',
+      screen: { width: 1512, height: 982 },
+      viewport: { width: 1512, height: 862 },
+      devicePixelRatio: 2,
+      brands: brands('Brave', '120'),
+      globals: { chrome: true, brave: true }
+    }),
+    expected: { os: 'macos', isMobile: false, deviceClass: 'desktop', browser: 'Brave', engine: 'Blink' }
+  },
+  {
+    name: 'Ubuntu 22.04 desktop - Firefox',
+    environment: environment({ platform: 'Linux x86_64', css: { mozAppearance: true } }),
+    expected: { os: 'linux', isMobile: false, deviceClass: 'desktop', browser: 'Firefox', engine: 'Gecko' }
+  },
+  {
+    name: 'Chromebook (touch) - Chrome',
+    environment: environment({
+      platform: 'Linux x86_64',
+      userAgentDataPlatform: 'Chrome OS',
+      maxTouchPoints: 10,
+      touchEvents: true,
+      touchEventConstructor: true,
+      screen: { width: 1366, height: 768 },
+      viewport: { width: 1366, height: 657 },
+      brands: brands('Google Chrome', '120'),
+      globals: { chrome: true }
+    }),
+    expected: { os: 'chromeos', isMobile: false, deviceClass: 'desktop', browser: 'Chrome', engine: 'Blink' }
+  },
+  {
+    name: 'iPhone 15 - Safari',
+    environment: environment({
+      platform: 'iPhone',
+      maxTouchPoints: 5,
+      touchEvents: true,
+      touchEventConstructor: true,
+      standalone: true,
+      screen: { width: 393, height: 852 },
+      viewport: { width: 393, height: 659 },
+      pointer: 'coarse',
+      devicePixelRatio: 3,
+      css: { touchCallout: true },
+      globals: { gestureEvent: true }
+    }),
+    expected: { os: 'ios', isMobile: true, deviceClass: 'phone', browser: 'Safari', engine: 'WebKit' }
+  },
+  {
+    name: 'iPad Pro 12.9" - Safari (desktop-class, reports MacIntel)',
+    environment: environment({
+      platform: 'MacIntel',
+      maxTouchPoints: 5,
+      touchEvents: true,
+      touchEventConstructor: true,
+      standalone: true,
+      screen: { width: 1024, height: 1366 },
+      viewport: { width: 1024, height: 1292 },
+      pointer: 'coarse',
+      devicePixelRatio: 2,
+      css: { touchCallout: true },
+      globals: { gestureEvent: true }
+    }),
+    expected: { os: 'ipados', isMobile: true, deviceClass: 'tablet', browser: 'Safari', engine: 'WebKit' }
+  },
+  {
+    name: 'iPad (9th generation) - Safari (mobile site requested)',
+    environment: environment({
+      platform: 'iPad',
+      maxTouchPoints: 5,
+      touchEvents: true,
+      touchEventConstructor: true,
+      standalone: true,
+      screen: { width: 810, height: 1080 },
+      viewport: { width: 810, height: 1010 },
+      pointer: 'coarse',
+      devicePixelRatio: 2,
+      css: { touchCallout: true },
+      globals: { gestureEvent: true }
+    }),
+    expected: { os: 'ipados', isMobile: true, deviceClass: 'tablet', browser: 'Safari', engine: 'WebKit' }
+  },
+  {
+    name: 'Pixel 8 - Chrome',
+    environment: environment({
+      platform: 'Linux armv81',
+      userAgentDataPlatform: 'Android',
+      maxTouchPoints: 5,
+      touchEvents: true,
+      touchEventConstructor: true,
+      screen: { width: 412, height: 915 },
+      viewport: { width: 412, height: 839 },
+      pointer: 'coarse',
+      devicePixelRatio: 2.625,
+      brands: brands('Google Chrome', '120'),
+      globals: { chrome: true }
+    }),
+    expected: { os: 'android', isMobile: true, deviceClass: 'phone', browser: 'Chrome', engine: 'Blink' }
+  },
+  {
+    name: 'Galaxy Tab S9 - Samsung Internet',
+    environment: environment({
+      platform: 'Linux armv8l',
+      userAgentDataPlatform: 'Android',
+      maxTouchPoints: 10,
+      touchEvents: true,
+      touchEventConstructor: true,
+      screen: { width: 800, height: 1280 },
+      viewport: { width: 800, height: 1184 },
+      pointer: 'coarse',
+      devicePixelRatio: 2,
+      brands: brands('Samsung Internet', '23', '115'),
+      globals: { chrome: true }
+    }),
+    expected: { os: 'android', isMobile: true, deviceClass: 'tablet', browser: 'Samsung Internet', engine: 'Blink' }
+  },
+  {
+    name: 'Chromecast with Google TV - Chrome WebView',
+    environment: environment({
+      platform: 'Linux armv8l',
+      userAgentDataPlatform: 'Android',
+      screen: { width: 960, height: 540 },
+      viewport: { width: 960, height: 540 },
+      pointer: 'none',
+      devicePixelRatio: 2,
+      brands: brands('Android WebView', '120')
+    }),
+    expected: { os: 'android', isMobile: false, deviceClass: 'tv', browser: 'Chromium', engine: 'Blink' }
+  },
+  {
+    name: 'LG webOS TV - built-in browser (remote)',
+    environment: environment({
+      platform: 'Linux armv7l',
+      screen: { width: 1920, height: 1080 },
+      viewport: { width: 1920, height: 1080 },
+      pointer: 'coarse',
+      globals: { chrome: true }
+    }),
+    expected: { os: 'linux', isMobile: false, deviceClass: 'tv', browser: 'Chrome', engine: 'Blink' }
+  }
+];
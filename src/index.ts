@@ -1,19 +1,88 @@
 // Export types
-export type { OS, OSZoomConfig, ZoomControllerConfig, OSDetectionResult, ZoomState } from './types';
+export type {
+  OS,
+  DeviceClass,
+  DeviceZoomConfig,
+  BrowserEngine,
+  BrowserBrand,
+  DetectionOptions,
+  OSZoomConfig,
+  ZoomControllerConfig,
+  OSDetectionResult,
+  ZoomState,
+  ZoomChangeCause,
+  ZoomChangeEvent,
+  ZoomEventMap,
+  ZoomEventListener,
+  ZoomStorage,
+  ZoomStorageType,
+  ZoomPersistenceConfig,
+  ZoomPreference,
+  KeyboardShortcutConfig,
+  ClientHints,
+  ServerZoomResult,
+  ZoomTarget,
+  ZoomStrategyName,
+  DesignTokenConfig,
+  DesignTokenElements,
+  ZoomBreakpoint,
+  ZoomRule,
+  ZoomRuleCondition,
+  ZoomRuleContext,
+  ZoomRuleEvaluation,
+  ZoomRuleResolution,
+  ZoomSource,
+  ZoomExplanation,
+  ZoomTransitionConfig,
+  ZoomAnimationEvent,
+  EasingName,
+  EasingFunction,
+  NativeZoomMode,
+  NativeZoomReading,
+  NativeZoomChangeEvent,
+  DetectionChangeEvent,
+  DetectionWatchConfig,
+  ConfigIssue,
+  ConfigIssueSeverity,
+  EnvironmentSnapshot,
+  DeviceFixture
+} from './types';
 
 // Export core classes
 export { OSDetector } from './core/OSDetector';
 export { ZoomManager } from './core/ZoomManager';
 export { ConfigManager } from './core/ConfigManager';
+export { OSZoomConfigError } from './core/OSZoomConfigError';
+export { PreferenceStore } from './core/PreferenceStore';
+export { KeyboardShortcuts } from './core/KeyboardShortcuts';
+export { BreakpointWatcher } from './core/BreakpointWatcher';
+export { RuleEngine } from './core/RuleEngine';
+export { ZoomAnimator } from './core/ZoomAnimator';
+export { NativeZoomMonitor } from './core/NativeZoomMonitor';
+export { ElementZoom } from './core/ElementZoom';
+export { NativeZoomStrategy, TransformStrategy, FontSizeStrategy, createZoomStrategy } from './core/ZoomStrategies';
+export type { ZoomStrategy } from './core/ZoomStrategies';
 
 // Export utilities
 export { CSSVariables } from './utils/cssVariables';
+export { MemoryStorage, CookieStorage, createStorage } from './utils/storage';
+export { readBootstrapResult } from './utils/hydration';
+export { easings, getEasing } from './utils/easing';
+export { DEVICE_FIXTURES } from './fixtures/devices';
 
 // Export adapters
 export { OSZoom } from './adapters/VanillaAdapter';
-export { useOSZoom as useOSZoomReact } from './adapters/ReactAdapter';
-export { useOSZoom as useOSZoomVue } from './adapters/VueAdapter';
-export { OSZoomService } from './adapters/AngularAdapter';
+export { useOSZoom as useOSZoomReact, OSZoomProvider } from './adapters/ReactAdapter';
+export type { OSZoomProviderProps } from './adapters/ReactAdapter';
+export { useOSZoom as useOSZoomVue, OSZoomPlugin, createZoomDirective, vZoom } from './adapters/VueAdapter';
+export type { OSZoomVue, ZoomDirectiveValue } from './adapters/VueAdapter';
+export { OSZoomService, OSZoomDirective, OSZoomModule, OS_ZOOM_CONFIG, provideOSZoom } from './adapters/AngularAdapter';
+// Svelte and Solid adapters are only exported from 'oszoom/svelte' and 'oszoom/solid' -
+// importing them here would require their optional peers in every app
+export { OSZoomControl, defineOSZoomControl } from './adapters/WebComponentAdapter';
+export type { OSZoomControlVariant, OSZoomControlPreset } from './adapters/WebComponentAdapter';
+export { detectFromHeaders, resolveServerZoom, renderBootstrap } from './adapters/ServerAdapter';
+export type { RequestHeaders, BootstrapOptions } from './adapters/ServerAdapter';
 
 // Default export
 import { OSZoom } from './adapters/VanillaAdapter';
@@ -1,7 +1,9 @@
 // React-specific entry point
 // Re-exports the hook with the expected name
 
-export { useOSZoom as useOSZoomReact } from './adapters/ReactAdapter';
+export { useOSZoom as useOSZoomReact, OSZoomProvider } from './adapters/ReactAdapter';
+export type { OSZoomProviderProps } from './adapters/ReactAdapter';
 export { ConfigManager } from './core/ConfigManager';
-export type { ZoomControllerConfig, ZoomState, OS, OSDetectionResult } from './types';
+export { OSZoomConfigError } from './core/OSZoomConfigError';
+export type { ZoomControllerConfig, ZoomState, OS, OSDetectionResult, ZoomChangeEvent } from './types';
 
@@ -0,0 +1,8 @@
+// Server entry point
+// Detection from request headers and the no-flash inline bootstrap snippet
+
+export { detectFromHeaders, resolveServerZoom, renderBootstrap } from './adapters/ServerAdapter';
+export type { RequestHeaders, BootstrapOptions } from './adapters/ServerAdapter';
+export { ConfigManager } from './core/ConfigManager';
+export { OSZoomConfigError } from './core/OSZoomConfigError';
+export type { ZoomControllerConfig, OSDetectionResult, ServerZoomResult, OS } from './types';
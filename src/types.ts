@@ -1,7 +1,12 @@
 /**
  * Supported Operating Systems
  */
-export type OS = 'windows' | 'macos' | 'linux' | 'android' | 'ios' | 'unknown';
+export type OS = 'windows' | 'macos' | 'linux' | 'chromeos' | 'android' | 'ios' | 'ipados' | 'unknown';
+
+/**
+ * Device class - independent of the OS (an Android tablet, a Windows desktop, a webOS TV)
+ */
+export type DeviceClass = 'phone' | 'tablet' | 'desktop' | 'tv';
 
 /**
  * Zoom configuration for specific OS
@@ -9,6 +14,32 @@ export type OS = 'windows' | 'macos' | 'linux' | 'android' | 'ios' | 'unknown';
 export interface OSZoomConfig {
   enabled: boolean;
   zoomLevel: number; // 0.5 to 2.0 (50% to 200%)
+  versions?: { [version: string]: number }; // Zoom per OS version, e.g. { '11': 0.8 } on Windows
+  breakpoints?: ZoomBreakpoint[]; // Ordered rules - the first match wins over zoomLevel
+}
+
+/**
+ * Zoom configuration for a device class
+ */
+export interface DeviceZoomConfig {
+  enabled: boolean;
+  zoomLevel: number;
+}
+
+/**
+ * Viewport / DPR / orientation breakpoint
+ * Every condition that is set must match; bounds are inclusive
+ */
+export interface ZoomBreakpoint {
+  minWidth?: number; // Viewport width in CSS px
+  maxWidth?: number;
+  minHeight?: number; // Viewport height in CSS px
+  maxHeight?: number;
+  minDpr?: number; // window.devicePixelRatio
+  maxDpr?: number;
+  orientation?: 'portrait' | 'landscape';
+  media?: string; // Any matchMedia query, e.g. '(pointer: coarse)'
+  zoomLevel: number;
 }
 
 /**
@@ -18,11 +49,236 @@ export interface ZoomControllerConfig {
   windows?: OSZoomConfig;
   macos?: OSZoomConfig;
   linux?: OSZoomConfig;
+  chromeos?: OSZoomConfig; // Default: the linux config
   android?: OSZoomConfig;
   ios?: OSZoomConfig;
+  ipados?: OSZoomConfig; // Default: the ios config
+  devices?: { [deviceClass in DeviceClass]?: DeviceZoomConfig }; // Wins over the OS zoomLevel for that device class
+  detectionFallback?: boolean; // Guess android / windows for devices that can't be identified (default: true)
   debug?: boolean;
   enableCSS?: boolean;
   enableJavaScript?: boolean;
+  persist?: boolean | ZoomPersistenceConfig; // Remember user-chosen zoom levels (opt-in)
+  zoomSteps?: number[]; // Ladder used by zoomIn()/zoomOut()
+  minZoom?: number; // Default: 0.5
+  maxZoom?: number; // Default: 2.0
+  keyboard?: boolean | KeyboardShortcutConfig; // Zoom keyboard shortcuts (opt-in)
+  clientHints?: boolean; // Refine detection with User-Agent Client Hints (OS version, model)
+  initialDetection?: OSDetectionResult; // Server-side result to hydrate from instead of re-detecting
+  target?: ZoomTarget; // Element to zoom (default: document.documentElement)
+  strategy?: ZoomStrategyName; // How zoom is applied (default: 'css-variables')
+  tokens?: DesignTokenConfig; // Injected design-token stylesheet
+  breakpointDebounce?: number; // Delay before breakpoints are re-evaluated after a change, in ms (default: 150)
+  watch?: boolean | DetectionWatchConfig; // Re-detect and re-apply when the display or input devices change (opt-in)
+  rules?: ZoomRule[]; // Zoom rules on OS, version, browser, device and DPR - a match wins over the OS config
+  ruleResolution?: ZoomRuleResolution; // Default: 'first-match'
+  transition?: ZoomTransitionConfig; // Animate between zoom levels (skipped for prefers-reduced-motion)
+  nativeZoom?: NativeZoomMode; // Track browser zoom and pinch zoom (default: 'ignore')
+  strict?: boolean; // Throw OSZoomConfigError on invalid config instead of repairing it with a warning
+  extends?: string | string[]; // Registered preset(s) this config builds on
+}
+
+/**
+ * Options for watching the environment (`watch`)
+ */
+export interface DetectionWatchConfig {
+  debounce?: number; // Delay before re-detecting after a change, in ms (default: 150)
+}
+
+/**
+ * Severity of a config issue - errors are repaired in lenient mode and thrown in strict mode
+ */
+export type ConfigIssueSeverity = 'error' | 'warning';
+
+/**
+ * Problem found by ConfigManager.validate()
+ */
+export interface ConfigIssue {
+  path: string; // e.g. 'windows.zoomLevel' or 'rules[0].zoomLevel'
+  message: string;
+  severity: ConfigIssueSeverity;
+}
+
+/**
+ * How browser zoom (Ctrl/Cmd +) and pinch zoom are handled
+ * - ignore: not monitored
+ * - track: monitored and reported in state and 'nativezoomchange' events
+ * - compensate: tracked, and the applied factor is divided by the browser zoom so the combined zoom hits the target
+ */
+export type NativeZoomMode = 'ignore' | 'track' | 'compensate';
+
+/**
+ * Estimated browser zoom and pinch zoom (1 = 100%)
+ */
+export interface NativeZoomReading {
+  nativeZoom: number; // Browser zoom (Ctrl/Cmd +/-)
+  pinchZoom: number; // visualViewport scale
+}
+
+/**
+ * Easing function - maps animation progress (0-1) to eased progress (0-1)
+ */
+export type EasingFunction = (t: number) => number;
+
+/**
+ * Built-in easing functions
+ */
+export type EasingName = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out';
+
+/**
+ * Zoom transition configuration
+ */
+export interface ZoomTransitionConfig {
+  duration: number; // Milliseconds
+  easing?: EasingName | EasingFunction; // Default: 'ease-in-out'
+}
+
+/**
+ * How the winning rule is picked when several match
+ * - 'first-match': highest priority, then config order
+ * - 'most-specific': highest priority, then most conditions, then config order
+ */
+export type ZoomRuleResolution = 'first-match' | 'most-specific';
+
+/**
+ * Environment a rule is evaluated against
+ */
+export interface ZoomRuleContext {
+  detection: OSDetectionResult;
+  tablet: boolean;
+  touch: boolean;
+  dpr: number;
+}
+
+/**
+ * Conditions of a zoom rule - every condition that is set must match
+ */
+export interface ZoomRuleCondition {
+  os?: OS | OS[];
+  osVersion?: string | string[]; // Exact or prefix match ('14' matches '14.2.1')
+  browser?: string | string[]; // Case-insensitive
+  mobile?: boolean;
+  tablet?: boolean;
+  touch?: boolean;
+  minDpr?: number;
+  maxDpr?: number;
+  test?: (context: ZoomRuleContext) => boolean; // Custom predicate
+}
+
+/**
+ * Zoom rule
+ */
+export interface ZoomRule {
+  name?: string; // Shown by explain()
+  when: ZoomRuleCondition;
+  zoomLevel: number;
+  priority?: number; // Higher wins (default: 0)
+}
+
+/**
+ * Outcome of one rule during evaluation
+ */
+export interface ZoomRuleEvaluation {
+  rule: ZoomRule;
+  matched: boolean;
+  specificity: number; // Number of conditions
+  reasons: string[]; // One entry per condition, e.g. 'browser: Firefox matches firefox'
+}
+
+/**
+ * Where the resolved zoom level came from
+ */
+export type ZoomSource = 'preference' | 'rule' | 'breakpoint' | 'version' | 'device' | 'os';
+
+/**
+ * Explanation of how the zoom level was resolved
+ */
+export interface ZoomExplanation {
+  os: OS;
+  enabled: boolean;
+  zoomLevel: number;
+  source: ZoomSource;
+  rule?: ZoomRule; // Winning rule when source is 'rule'
+  policy: ZoomRuleResolution;
+  evaluations: ZoomRuleEvaluation[];
+  reason: string;
+}
+
+/**
+ * Element rules for the design-token stylesheet: selector -> property -> value
+ * A value naming a token becomes var(--token); '{token}' placeholders work inside expressions
+ */
+export interface DesignTokenElements {
+  [selector: string]: { [property: string]: string | number };
+}
+
+/**
+ * Design-token stylesheet configuration
+ */
+export interface DesignTokenConfig {
+  prefix?: string; // Variable prefix (default: '--', e.g. '--oz-' gives --oz-scale-factor)
+  tokens?: { [name: string]: string | number }; // Base value per token, merged over the defaults (numbers are px)
+  elements?: boolean | DesignTokenElements; // Element rules - true for the built-in h1/p/html rules (opt-in)
+  reset?: boolean; // Global margin/padding reset (opt-in)
+  mode?: 'full' | 'variables'; // 'variables' emits only the variable block (default: 'full')
+}
+
+/**
+ * How zoom is applied to the target
+ * - 'css-variables': sets --scale-factor for stylesheets that use it
+ * - 'zoom': the CSS zoom property
+ * - 'transform': transform: scale() with compensating width/height
+ * - 'font-size': root font-size, for rem-based layouts
+ */
+export type ZoomStrategyName = 'css-variables' | 'zoom' | 'transform' | 'font-size';
+
+/**
+ * Element a controller zooms - an element, a CSS selector or a ShadowRoot
+ */
+export type ZoomTarget = Element | ShadowRoot | string;
+
+/**
+ * Keyboard shortcut configuration
+ * Chords are written like 'Mod+=' or 'Ctrl+Shift+0'. 'Mod' is Cmd on macOS/iOS and Ctrl elsewhere.
+ */
+export interface KeyboardShortcutConfig {
+  zoomIn?: string[]; // Default: ['Mod+=', 'Mod++']
+  zoomOut?: string[]; // Default: ['Mod+-']
+  reset?: string[]; // Default: ['Mod+0'] - calls resetToDefault()
+  preventDefault?: boolean; // Stop the browser's own zoom from also running (default: true)
+}
+
+/**
+ * Built-in storage backends for persisted preferences
+ */
+export type ZoomStorageType = 'localStorage' | 'sessionStorage' | 'cookie' | 'memory';
+
+/**
+ * Minimal key/value storage used for persisted preferences
+ * Matches the Web Storage API so custom backends are easy to plug in
+ */
+export interface ZoomStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+/**
+ * Persistence configuration
+ */
+export interface ZoomPersistenceConfig {
+  storage?: ZoomStorageType | ZoomStorage; // Default: 'localStorage'
+  key?: string; // Default: 'oszoom:preference'
+  version?: number; // Schema version - stored preferences with another version are discarded
+  sync?: boolean; // Sync changes across open tabs (default: true)
+}
+
+/**
+ * Persisted user zoom preference
+ */
+export interface ZoomPreference {
+  version: number;
+  levels: { [os in OS]?: number };
 }
 
 /**
@@ -38,8 +294,98 @@ export interface DefaultConfig {
 export interface OSDetectionResult {
   os: OS;
   version?: string;
+  model?: string;
   isMobile: boolean;
-  browser?: string;
+  deviceClass?: DeviceClass;
+  browser?: string; // 'Edge', 'Chrome', 'Firefox', 'Safari', 'Opera', 'Samsung Internet', 'Brave' or 'Chromium'
+  browserVersion?: string; // Major version, e.g. '120' (from Client Hints brands - not available in Firefox and Safari)
+  engine?: BrowserEngine;
+  confidence?: number; // 0-1: ~0.9 for a platform match, lower for feature inference, 0.2 for a fallback guess
+  signals?: string[]; // Signals that fired, e.g. 'platform:win32', 'maxTouchPoints>0', '-webkit-touch-callout'
+}
+
+/**
+ * Rendering engine
+ */
+export type BrowserEngine = 'Blink' | 'Gecko' | 'WebKit';
+
+/**
+ * User-Agent Client Hints brand (navigator.userAgentData.brands or the Sec-CH-UA header)
+ */
+export interface BrowserBrand {
+  brand: string;
+  version: string;
+}
+
+/**
+ * Everything OSDetector reads from the browser, as plain data
+ * Collected by OSDetector.snapshot(); hand-written snapshots make detection testable
+ */
+export interface EnvironmentSnapshot {
+  platform: string; // navigator.platform
+  userAgentDataPlatform: string; // navigator.userAgentData.platform ('' outside Chromium)
+  pointer: 'fine' | 'coarse' | 'none'; // Primary pointer, from the (pointer) media query
+  brands: BrowserBrand[]; // navigator.userAgentData.brands ([] outside Chromium)
+  maxTouchPoints: number;
+  touchEvents: boolean; // 'ontouchstart' in window
+  touchEventConstructor: boolean; // 'TouchEvent' in window
+  standalone: boolean; // 'standalone' in navigator (iOS Safari)
+  screen: { width: number; height: number };
+  viewport: { width: number; height: number }; // innerWidth / innerHeight
+  devicePixelRatio: number;
+  css: {
+    touchCallout: boolean; // CSS.supports('-webkit-touch-callout', 'none')
+    webkitAppearance: boolean; // CSS.supports('-webkit-appearance', 'none')
+    mozAppearance: boolean; // CSS.supports('-moz-appearance', 'none') (Gecko)
+  };
+  globals: {
+    chrome: boolean; // window.chrome (Blink)
+    chromeRuntime: boolean; // window.chrome.runtime
+    opr: boolean; // window.opr (Opera)
+    brave: boolean; // navigator.brave
+    gestureEvent: boolean; // window.GestureEvent (WebKit)
+    installTrigger: boolean; // window.InstallTrigger (Firefox)
+    safari: boolean; // window.safari
+    styleMedia: boolean; // window.StyleMedia (legacy Edge)
+    webkit: boolean; // window.webkit
+    activeX: boolean; // window.ActiveXObject
+  };
+}
+
+/**
+ * Environment snapshot of a real device with the detection it should produce
+ */
+export interface DeviceFixture {
+  name: string;
+  environment: EnvironmentSnapshot;
+  expected: Pick<OSDetectionResult, 'os' | 'isMobile' | 'deviceClass' | 'browser' | 'engine'>;
+}
+
+/**
+ * Options for OSDetector.detect() / detectFrom() / detectAsync()
+ */
+export interface DetectionOptions {
+  fallback?: boolean; // Guess android for unidentified touch devices and windows for unknown desktops (default: true)
+}
+
+/**
+ * User-Agent Client Hints values used for detection
+ * (navigator.userAgentData.getHighEntropyValues() or Sec-CH-UA-* request headers)
+ */
+export interface ClientHints {
+  platform?: string;
+  platformVersion?: string;
+  model?: string;
+  mobile?: boolean;
+}
+
+/**
+ * Result of server-side detection, embedded in the page for client hydration
+ */
+export interface ServerZoomResult {
+  detection: OSDetectionResult;
+  zoom: number; // Resolved zoom level (1 when zoom is disabled for the OS)
+  isActive: boolean;
 }
 
 /**
@@ -49,5 +395,68 @@ export interface ZoomState {
   currentZoom: number;
   appliedOS: OS;
   isActive: boolean;
+  nativeZoom: number; // Estimated browser zoom (1 unless nativeZoom is tracked)
+  pinchZoom: number; // Pinch zoom scale (1 unless nativeZoom is tracked)
+}
+
+
+/**
+ * What caused a zoom state change
+ */
+export type ZoomChangeCause =
+  'apply' | 'setZoom' | 'step' | 'resetToDefault' | 'reset' | 'sync' | 'breakpoint' | 'nativezoom' | 'detection';
+
+/**
+ * Zoom state change event
+ */
+export interface ZoomChangeEvent {
+  type: 'change' | 'apply' | 'reset';
+  previous: ZoomState;
+  next: ZoomState;
+  cause: ZoomChangeCause;
+}
+
+/**
+ * Events emitted by ZoomManager, keyed by event name
+ */
+export interface ZoomEventMap {
+  change: ZoomChangeEvent;
+  apply: ZoomChangeEvent;
+  reset: ZoomChangeEvent;
+  animationend: ZoomAnimationEvent;
+  nativezoomchange: NativeZoomChangeEvent;
+  detectionchange: DetectionChangeEvent;
 }
 
+/**
+ * Fired in watch mode when re-detection gives a different result (OS, version, device class, browser...)
+ */
+export interface DetectionChangeEvent {
+  type: 'detectionchange';
+  previous: OSDetectionResult;
+  next: OSDetectionResult;
+}
+
+/**
+ * Fired when the estimated browser zoom or the pinch zoom changes
+ */
+export interface NativeZoomChangeEvent {
+  type: 'nativezoomchange';
+  previous: NativeZoomReading;
+  next: NativeZoomReading;
+}
+
+/**
+ * Fired when an animated zoom transition reaches its target
+ */
+export interface ZoomAnimationEvent {
+  type: 'animationend';
+  from: number;
+  to: number;
+  duration: number;
+}
+
+/**
+ * Listener for a ZoomManager event
+ */
+export type ZoomEventListener<K extends keyof ZoomEventMap = 'change'> = (event: ZoomEventMap[K]) => void;
@@ -0,0 +1,107 @@
+/**
+ * @jest-environment jsdom
+ */
+import { readAttributeConfig } from './autoInit';
+import { OSZoom } from '../adapters/VanillaAdapter';
+
+function element(attributes: Record<string, string>, tag = 'div'): Element {
+  const node = document.createElement(tag);
+  Object.keys(attributes).forEach((name) => node.setAttribute(name, attributes[name]));
+  return node;
+}
+
+describe('readAttributeConfig', () => {
+  it('returns null without any OSZoom attribute', () => {
+    expect(readAttributeConfig(element({ src: 'oszoom.js' }, 'script'), element({ lang: 'en' }))).toBeNull();
+  });
+
+  it('reads zoom levels, off switches, flags and options', () => {
+    const root = element({
+      'data-oszoom-windows': '0.8',
+      'data-oszoom-macos': '110%',
+      'data-oszoom-linux': 'off',
+      'data-oszoom-keyboard': '',
+      'data-oszoom-persist': 'false',
+      'data-oszoom-clienthints': 'true',
+      'data-oszoom-preset': 'compact, brand',
+      'data-oszoom-strategy': 'font-size',
+      'data-oszoom-transition': '200'
+    });
+    expect(readAttributeConfig(null, root)).toEqual({
+      windows: { enabled: true, zoomLevel: 0.8 },
+      macos: { enabled: true, zoomLevel: 1.1 },
+      linux: { enabled: false, zoomLevel: 1 },
+      keyboard: true,
+      persist: false,
+      clientHints: true,
+      extends: ['compact', 'brand'],
+      strategy: 'font-size',
+      transition: { duration: 200 }
+    });
+  });
+
+  it('lets the script tag win over <html>, with or without the oszoom- prefix', () => {
+    const script = element({ 'data-windows': '0.9', 'data-oszoom-macos': '1.2' }, 'script');
+    const root = element({ 'data-oszoom-windows': '0.8', 'data-oszoom-macos': '1', 'data-oszoom-linux': '1.1' });
+    expect(readAttributeConfig(script, root)).toEqual({
+      windows: { enabled: true, zoomLevel: 0.9 },
+      macos: { enabled: true, zoomLevel: 1.2 },
+      linux: { enabled: true, zoomLevel: 1.1 }
+    });
+  });
+
+  it('ignores unprefixed attributes on <html>', () => {
+    expect(readAttributeConfig(null, element({ 'data-windows': '0.8' }))).toBeNull();
+  });
+
+  it('opts out with data-oszoom-manual on either element', () => {
+    const root = element({ 'data-oszoom-windows': '0.8' });
+    expect(readAttributeConfig(element({ 'data-oszoom-manual': '' }, 'script'), root)).toBeNull();
+    expect(readAttributeConfig(null, element({ 'data-oszoom-windows': '0.8', 'data-oszoom-manual': '' }))).toBeNull();
+  });
+});
+
+describe('vanilla entry auto-initialisation', () => {
+  const html = document.documentElement;
+
+  afterEach(() => {
+    OSZoom.instance?.destroy();
+    Array.from(html.attributes).forEach((attribute) => html.removeAttribute(attribute.name));
+  });
+
+  const loadEntry = (): typeof OSZoom => {
+    let entry: typeof OSZoom;
+    jest.isolateModules(() => {
+      entry = require('../vanilla').default;
+    });
+    return entry!;
+  };
+
+  it('creates the page instance from <html> attributes', () => {
+    // Whichever desktop OS jsdom is detected as
+    ['windows', 'macos', 'linux'].forEach((os) => html.setAttribute(`data-oszoom-${os}`, '0.9'));
+    html.setAttribute('data-oszoom-strategy', 'css-variables');
+    const Entry = loadEntry();
+
+    expect(Entry.instance).not.toBeNull();
+    expect(Entry.instance!.getState().isActive).toBe(true);
+    expect(html.style.getPropertyValue('--scale-factor')).toBe('0.9');
+    Entry.instance!.destroy();
+  });
+
+  it('does nothing without attributes or with data-oszoom-manual', () => {
+    expect(loadEntry().instance).toBeNull();
+
+    html.setAttribute('data-oszoom-linux', '0.9');
+    html.setAttribute('data-oszoom-manual', '');
+    expect(loadEntry().instance).toBeNull();
+  });
+
+  it('logs instead of throwing for an invalid config', () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    html.setAttribute('data-oszoom-preset', 'no-such-preset');
+    expect(() => loadEntry()).not.toThrow();
+    expect(error).toHaveBeenCalledWith('[OSZoom] Auto-initialisation failed:', expect.any(Error));
+    error.mockRestore();
+  });
+});
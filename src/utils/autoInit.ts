@@ -0,0 +1,97 @@
+import { ZoomControllerConfig, ZoomStrategyName } from '../types';
+
+export const ATTRIBUTE_PREFIX = 'data-oszoom-';
+export const MANUAL_ATTRIBUTE = 'data-oszoom-manual';
+
+const OS_KEYS = ['windows', 'macos', 'linux', 'chromeos', 'android', 'ios', 'ipados'] as const;
+const FLAG_KEYS = ['debug', 'keyboard', 'persist', 'clientHints', 'watch'] as const;
+
+type AttributeReader = (name: string) => string | null;
+
+/**
+ * Build a config from data attributes on the loading <script> tag and on <html>
+ *
+ * <html> takes `data-oszoom-<name>`; the script tag takes `data-<name>` or `data-oszoom-<name>`
+ * and wins over <html>. Names: windows, macos, linux, chromeos, android, ios, ipados (zoom level such as
+ * "0.8" or "80%", or "off"), preset, strategy, transition (ms), debug, keyboard, persist,
+ * clientHints, watch (flags: present or "true" means on).
+ *
+ * @param {Element | null} script - The <script> tag that loaded OSZoom (document.currentScript)
+ * @param {Element} [root] - Root element (default: <html>)
+ * @returns {ZoomControllerConfig | null} - null when no OSZoom attribute is present or `data-oszoom-manual` opts out
+ */
+export function readAttributeConfig(
+  script: Element | null,
+  root: Element | null = typeof document !== 'undefined' ? document.documentElement : null
+): ZoomControllerConfig | null {
+  const elements = [root, script].filter((element): element is Element => !!element);
+  if (elements.some((element) => element.hasAttribute(MANUAL_ATTRIBUTE))) {
+    return null;
+  }
+
+  const readers: AttributeReader[] = elements.map((element) => (name: string) => {
+    const prefixed = element.getAttribute(`${ATTRIBUTE_PREFIX}${name}`);
+    return prefixed !== null || element !== script ? prefixed : element.getAttribute(`data-${name}`);
+  });
+  // The script tag is read last, so its values win
+  const read = (name: string): string | null =>
+    readers.reduce<string | null>((value, reader) => reader(name) ?? value, null);
+
+  const config: ZoomControllerConfig = {};
+  let found = false;
+
+  OS_KEYS.forEach((os) => {
+    const value = read(os);
+    if (value === null) {
+      return;
+    }
+    found = true;
+    config[os] = isOff(value) ? { enabled: false, zoomLevel: 1 } : { enabled: true, zoomLevel: parseZoom(value) };
+  });
+
+  FLAG_KEYS.forEach((flag) => {
+    const value = read(flag.toLowerCase());
+    if (value === null) {
+      return;
+    }
+    found = true;
+    config[flag] = !isOff(value);
+  });
+
+  const preset = read('preset');
+  if (preset) {
+    found = true;
+    config.extends = preset.split(',').map((name) => name.trim()).filter(Boolean);
+  }
+
+  const strategy = read('strategy');
+  if (strategy) {
+    found = true;
+    config.strategy = strategy as ZoomStrategyName;
+  }
+
+  const transition = read('transition');
+  if (transition) {
+    found = true;
+    config.transition = { duration: parseFloat(transition) };
+  }
+
+  return found ? config : null;
+}
+
+/**
+ * Parse a zoom level: "0.8" or "80%" (unparseable values are left to config validation)
+ * @private
+ */
+function parseZoom(value: string): number {
+  const trimmed = value.trim();
+  return trimmed.endsWith('%') ? parseFloat(trimmed) / 100 : parseFloat(trimmed);
+}
+
+/**
+ * Check for a value that switches something off
+ * @private
+ */
+function isOff(value: string): boolean {
+  return ['false', 'off', 'no', '0'].includes(value.trim().toLowerCase());
+}
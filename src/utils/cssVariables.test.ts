@@ -0,0 +1,152 @@
+/**
+ * @jest-environment jsdom
+ */
+import { CSSVariables } from './cssVariables';
+
+describe('CSSVariables.generateCSS', () => {
+  it('scales every default token by the scale factor', () => {
+    const css = CSSVariables.generateCSS();
+    expect(css).toContain(':root, [data-oszoom-scope] {');
+    expect(css).toContain('--scale-factor: 1;');
+    expect(css).toContain('--base-font-size: calc(16px * var(--scale-factor));');
+    expect(css).not.toContain('h1');
+  });
+
+  it('follows the prefix and adds custom tokens', () => {
+    const css = CSSVariables.generateCSS({ prefix: '--app-', tokens: { gap: 8 } });
+    expect(css).toContain('--app-scale-factor: 1;');
+    expect(css).toContain('--app-gap: calc(8px * var(--app-scale-factor));');
+  });
+
+  it('resolves token names and {token} expressions in element rules', () => {
+    const css = CSSVariables.generateCSS({
+      elements: { '.card': { padding: 'spacing-unit', margin: 'calc({spacing-unit} * 2)', color: 'red' } }
+    });
+    expect(css).toContain('padding: var(--spacing-unit);');
+    expect(css).toContain('margin: calc(var(--spacing-unit) * 2);');
+    expect(css).toContain('color: red;');
+  });
+
+  it('emits only the variables in variables mode', () => {
+    const css = CSSVariables.generateCSS({ mode: 'variables', reset: true, elements: true });
+    expect(css).not.toContain('box-sizing');
+    expect(css).not.toContain('h1');
+  });
+});
+
+describe('CSSVariables stylesheets', () => {
+  const styles = () => Array.from(document.head.querySelectorAll('style')).map((style) => style.id);
+
+  afterEach(() => {
+    document.head.innerHTML = '';
+  });
+
+  it('shares one stylesheet between instances with the same tokens', () => {
+    const first = new CSSVariables();
+    const second = new CSSVariables(undefined, {});
+    first.injectCSS();
+    second.injectCSS();
+    expect(styles()).toEqual([CSSVariables.STYLE_ID]);
+
+    first.removeCSS();
+    expect(styles()).toEqual([CSSVariables.STYLE_ID]);
+    second.removeCSS();
+    expect(styles()).toEqual([]);
+  });
+
+  it('gives each prefix or token set its own stylesheet', () => {
+    const base = new CSSVariables();
+    const app = new CSSVariables(undefined, { prefix: '--app-' });
+    const custom = new CSSVariables(undefined, { tokens: { gap: 8 } });
+    [base, app, custom].forEach((instance) => instance.injectCSS());
+
+    expect(new Set([base.getStyleId(), app.getStyleId(), custom.getStyleId()]).size).toBe(3);
+    expect(styles()).toEqual([base.getStyleId(), app.getStyleId(), custom.getStyleId()]);
+    expect(document.getElementById(app.getStyleId())!.textContent).toContain('--app-scale-factor');
+    expect(getComputedStyle(document.documentElement).getPropertyValue('--app-base-font-size')).not.toBe('');
+
+    app.removeCSS();
+    expect(styles()).toEqual([base.getStyleId(), custom.getStyleId()]);
+    base.removeCSS();
+    custom.removeCSS();
+  });
+
+  it('keeps the same id for the same tokens', () => {
+    expect(new CSSVariables(undefined, { prefix: '--app-' }).getStyleId())
+      .toBe(new CSSVariables(undefined, { prefix: '--app-' }).getStyleId());
+  });
+});
+
+describe('CSSVariables scopes', () => {
+  const factorOf = (element: HTMLElement, variable = '--scale-factor') => element.style.getPropertyValue(variable);
+  let outer: HTMLElement;
+  let inner: HTMLElement;
+
+  beforeEach(() => {
+    document.body.innerHTML = '<section id="outer"><div id="inner"></div></section>';
+    outer = document.getElementById('outer')!;
+    inner = document.getElementById('inner')!;
+  });
+
+  it('zooms a container by element or selector and marks it as a scope', () => {
+    const scope = new CSSVariables('#outer');
+    scope.setScaleFactor(0.9);
+    expect(factorOf(outer)).toBe('0.9');
+    expect(outer.hasAttribute('data-oszoom-scope')).toBe(true);
+    expect(factorOf(document.documentElement)).toBe('');
+    scope.clearScaleFactor();
+  });
+
+  it('composes nested scopes and recomputes them when the outer one changes', () => {
+    const outerScope = new CSSVariables(outer);
+    const innerScope = new CSSVariables(inner);
+    outerScope.setScaleFactor(0.9);
+    innerScope.setScaleFactor(0.5);
+    expect(factorOf(inner)).toBe('0.45');
+
+    outerScope.setScaleFactor(0.8);
+    expect(factorOf(inner)).toBe('0.4');
+
+    outerScope.clearScaleFactor();
+    expect(factorOf(inner)).toBe('0.5');
+    expect(outer.hasAttribute('data-oszoom-scope')).toBe(false);
+    expect(factorOf(outer)).toBe('');
+    innerScope.clearScaleFactor();
+  });
+
+  it('composes across a shadow boundary and writes to the host', () => {
+    const shadow = inner.attachShadow({ mode: 'open' });
+    const outerScope = new CSSVariables(outer);
+    const shadowScope = new CSSVariables(shadow);
+    outerScope.setScaleFactor(0.5);
+    shadowScope.setScaleFactor(0.8);
+    expect(factorOf(inner)).toBe('0.4');
+
+    shadowScope.injectCSS();
+    expect(shadow.getElementById(CSSVariables.STYLE_ID)).not.toBeNull();
+    shadowScope.removeCSS();
+    expect(shadow.getElementById(CSSVariables.STYLE_ID)).toBeNull();
+    shadowScope.clearScaleFactor();
+    outerScope.clearScaleFactor();
+  });
+
+  it('falls back to the previous writer when an instance sharing the element clears', () => {
+    const first = new CSSVariables(outer);
+    const second = new CSSVariables(outer);
+    first.setScaleFactor(0.9);
+    second.setScaleFactor(1.2);
+    expect(factorOf(outer)).toBe('1.2');
+
+    second.clearScaleFactor();
+    expect(factorOf(outer)).toBe('0.9');
+    first.clearScaleFactor();
+    expect(factorOf(outer)).toBe('');
+  });
+
+  it('writes the prefixed variable', () => {
+    const scope = new CSSVariables(outer, { prefix: '--app-' });
+    scope.setScaleFactor(0.75);
+    expect(factorOf(outer, '--app-scale-factor')).toBe('0.75');
+    scope.clearScaleFactor();
+  });
+});
@@ -1,16 +1,180 @@
+import { ZoomTarget, DesignTokenConfig, DesignTokenElements } from '../types';
+
 /**
  * CSSVariables - Manages CSS custom properties for zoom scaling
  */
 export class CSSVariables {
-  private static readonly CSS_VARIABLES = {
-    scaleFactor: '--scale-factor',
-    baseFontSize: '--base-font-size',
-    headingSize: '--heading-size',
-    spacingUnit: '--spacing-unit',
-    lineHeight: '--line-height',
-    borderRadius: '--border-radius'
+  private static readonly SCOPE_ATTRIBUTE = 'data-oszoom-scope';
+  private static readonly SCALE_FACTOR = 'scale-factor';
+
+  /**
+   * Id of the stylesheet for the default tokens; other token configs get a suffixed id
+   */
+  static readonly STYLE_ID = 'oszoom-styles';
+
+  /**
+   * Default design tokens - base values multiplied by the scale factor
+   */
+  static readonly DEFAULT_TOKENS: { [name: string]: string | number } = {
+    'base-font-size': '16px',
+    'heading-size': '32px',
+    'spacing-unit': '20px',
+    'line-height': '24px',
+    'border-radius': '4px'
+  };
+
+  /**
+   * Element rules used with `elements: true`
+   * Values that name a token become var(); {token} placeholders are replaced inside expressions
+   */
+  static readonly DEFAULT_ELEMENTS: DesignTokenElements = {
+    [`html, [${CSSVariables.SCOPE_ATTRIBUTE}]`]: { 'font-size': 'base-font-size' },
+    h1: { 'font-size': 'heading-size', 'margin-bottom': 'spacing-unit' },
+    'h2, h3, h4, h5, h6': { 'margin-bottom': 'calc({spacing-unit} * 0.75)' },
+    p: {
+      'font-size': 'base-font-size',
+      'line-height': 'line-height',
+      'margin-bottom': 'calc({spacing-unit} * 0.5)'
+    }
   };
 
+  /**
+   * Scale factor set on each zoomed element (before composing with ancestor scopes), per instance
+   * The instance that set it last wins; the scope goes away with its last instance
+   */
+  private static scopes: Map<HTMLElement, Map<CSSVariables, { factor: number; variable: string }>> = new Map();
+
+  /**
+   * Instances using each injected stylesheet (by id) of each document or shadow root
+   */
+  private static styleUsers: Map<Document | ShadowRoot, Map<string, Set<CSSVariables>>> = new Map();
+
+  private target?: ZoomTarget;
+  private tokens: DesignTokenConfig;
+  private css: string;
+  private styleId: string;
+
+  /**
+   * @param {ZoomTarget} [target] - Element, selector or ShadowRoot to zoom (default: document root)
+   * @param {DesignTokenConfig} [tokens] - Design token configuration for the injected stylesheet
+   */
+  constructor(target?: ZoomTarget, tokens: DesignTokenConfig = {}) {
+    this.target = target;
+    this.tokens = tokens;
+    this.css = CSSVariables.generateCSS(tokens);
+    // Instances with the same tokens share a stylesheet; different prefixes or tokens get their own
+    this.styleId = this.css === CSSVariables.generateCSS()
+      ? CSSVariables.STYLE_ID
+      : `${CSSVariables.STYLE_ID}-${CSSVariables.hash(this.css)}`;
+  }
+
+  /**
+   * Id of the stylesheet this instance injects
+   * @returns {string} - 'oszoom-styles' for the default tokens, 'oszoom-styles-<hash>' otherwise
+   */
+  getStyleId(): string {
+    return this.styleId;
+  }
+
+  /**
+   * Name of the scale factor variable (respects the token prefix)
+   * @returns {string} - e.g. '--scale-factor'
+   */
+  getScaleFactorVariable(): string {
+    return CSSVariables.variableName(this.tokens, CSSVariables.SCALE_FACTOR);
+  }
+
+  /**
+   * Generate the design token stylesheet
+   * Usable at build time - no DOM access
+   * @param {DesignTokenConfig} [config] - Design token configuration
+   * @returns {string} - CSS text
+   */
+  static generateCSS(config: DesignTokenConfig = {}): string {
+    // Custom tokens add to (or override) the defaults
+    const tokens = { ...CSSVariables.DEFAULT_TOKENS, ...config.tokens };
+    const scaleFactor = CSSVariables.variableName(config, CSSVariables.SCALE_FACTOR);
+    const variablesOnly = config.mode === 'variables';
+    const rules: string[] = [];
+
+    if (config.reset && !variablesOnly) {
+      rules.push(CSSVariables.rule('*', { margin: '0', padding: '0', 'box-sizing': 'border-box' }));
+    }
+
+    // Scaling variable plus one scaled variable per token
+    const variables: { [property: string]: string } = { [scaleFactor]: '1' };
+    Object.keys(tokens).forEach((name) => {
+      const base = tokens[name];
+      variables[CSSVariables.variableName(config, name)] =
+        `calc(${typeof base === 'number' ? `${base}px` : base} * var(${scaleFactor}))`;
+    });
+    rules.push(CSSVariables.rule(`:root, [${CSSVariables.SCOPE_ATTRIBUTE}]`, variables));
+
+    if (config.elements && !variablesOnly) {
+      const elements = config.elements === true ? CSSVariables.DEFAULT_ELEMENTS : config.elements;
+      Object.keys(elements).forEach((selector) => {
+        const declarations: { [property: string]: string } = {};
+        Object.keys(elements[selector]).forEach((property) => {
+          declarations[property] = CSSVariables.resolveTokenValue(config, tokens, elements[selector][property]);
+        });
+        rules.push(CSSVariables.rule(selector, declarations));
+      });
+    }
+
+    return rules.join('\n');
+  }
+
+  /**
+   * Build a variable name from the configured prefix
+   * @private
+   */
+  private static variableName(config: DesignTokenConfig, name: string): string {
+    return `${config.prefix ?? '--'}${name}`;
+  }
+
+  /**
+   * Turn a token name or {token} expression into CSS
+   * @private
+   */
+  private static resolveTokenValue(
+    config: DesignTokenConfig,
+    tokens: { [name: string]: string | number },
+    value: string | number
+  ): string {
+    const text = value.toString();
+    const isToken = (name: string) => name === CSSVariables.SCALE_FACTOR || name in tokens;
+
+    if (isToken(text)) {
+      return `var(${CSSVariables.variableName(config, text)})`;
+    }
+    return text.replace(/\{([\w-]+)\}/g, (match, name: string) =>
+      isToken(name) ? `var(${CSSVariables.variableName(config, name)})` : match
+    );
+  }
+
+  /**
+   * Short stable hash of a string (djb2, base 36)
+   * @private
+   */
+  private static hash(text: string): string {
+    let hash = 5381;
+    for (let i = 0; i < text.length; i++) {
+      hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+    }
+    return (hash >>> 0).toString(36);
+  }
+
+  /**
+   * Format a CSS rule
+   * @private
+   */
+  private static rule(selector: string, declarations: { [property: string]: string }): string {
+    const body = Object.keys(declarations)
+      .map((property) => `  ${property}: ${declarations[property]};`)
+      .join('\n');
+    return `${selector} {\n${body}\n}`;
+  }
+
   /**
    * Set scale factor CSS variable
    * @param {number} factor - Scale factor (0.5-2.0)
@@ -18,6 +182,9 @@ export class CSSVariables {
    * This is the most flexible approach - only sets the scale factor,
    * and CSS calc() handles all the calculations automatically.
    * This maintains clean responsive behavior and avoids whitespace issues.
+   * 
+   * Nested scopes compose: a scope inside another zoomed scope gets
+   * its own factor multiplied by the factor of the enclosing scope.
    */
   setScaleFactor(factor: number): void {
     // SSR-safe: check if document exists
@@ -25,82 +192,225 @@ export class CSSVariables {
       return;
     }
     
-    const root = document.documentElement;
+    const root = this.getRootElement();
+    if (!root) {
+      return;
+    }
+
+    if (root !== document.documentElement) {
+      root.setAttribute(CSSVariables.SCOPE_ATTRIBUTE, '');
+    }
+
+    const owners = CSSVariables.scopes.get(root) || new Map();
+    // Re-insert so this instance becomes the latest writer
+    owners.delete(this);
+    owners.set(this, { factor, variable: this.getScaleFactorVariable() });
+    CSSVariables.scopes.set(root, owners);
+    CSSVariables.updateScopes();
+  }
+
+  /**
+   * Remove this instance's scale factor from the target
+   * While other instances zoom the same element, the latest of them takes over;
+   * otherwise the element stops being a scope and nested scopes are recomputed without it
+   */
+  clearScaleFactor(): void {
+    if (typeof document === 'undefined') {
+      return;
+    }
+
+    const root = this.getRootElement();
+    const owners = root && CSSVariables.scopes.get(root);
+    if (!root || !owners || !owners.has(this)) {
+      return;
+    }
+
+    owners.delete(this);
+    const variable = this.getScaleFactorVariable();
+    if (!owners.size) {
+      CSSVariables.scopes.delete(root);
+      root.removeAttribute(CSSVariables.SCOPE_ATTRIBUTE);
+      root.style.removeProperty(variable);
+    } else if (CSSVariables.latest(owners).variable !== variable) {
+      root.style.removeProperty(variable);
+    }
+    CSSVariables.updateScopes();
+  }
+
+  /**
+   * Scale factor of the instance that set it last
+   * @private
+   */
+  private static latest(owners: Map<CSSVariables, { factor: number; variable: string }>): { factor: number; variable: string } {
+    return Array.from(owners.values()).pop()!;
+  }
+
+  /**
+   * Get the element the scale factor is written to
+   * A ShadowRoot target resolves to its host, whose custom properties inherit into the shadow tree
+   * @returns {HTMLElement | null}
+   */
+  getRootElement(): HTMLElement | null {
+    if (typeof document === 'undefined') {
+      return null;
+    }
+
+    const target = this.target;
+    if (!target) {
+      return document.documentElement;
+    }
+    if (typeof target === 'string') {
+      return document.querySelector<HTMLElement>(target);
+    }
+    if (CSSVariables.isShadowRoot(target)) {
+      return target.host as HTMLElement;
+    }
+    return target as HTMLElement;
+  }
+
+  /**
+   * Write the composed scale factor of every tracked scope
+   * @private
+   */
+  private static updateScopes(): void {
+    const composed = new Map<HTMLElement, number>();
+
+    const resolve = (element: HTMLElement): number => {
+      if (composed.has(element)) {
+        return composed.get(element)!;
+      }
+      const parentScope = CSSVariables.findParentScope(element);
+      const factor = CSSVariables.latest(CSSVariables.scopes.get(element)!).factor * (parentScope ? resolve(parentScope) : 1);
+      composed.set(element, factor);
+      return factor;
+    };
+
+    CSSVariables.scopes.forEach((owners, element) => {
+      // Forget scopes whose element has been removed from the page
+      if (!element.isConnected) {
+        CSSVariables.scopes.delete(element);
+        return;
+      }
+      // Round away floating point noise from multiplying nested factors
+      const factor = Math.round(resolve(element) * 10000) / 10000;
+      element.style.setProperty(CSSVariables.latest(owners).variable, factor.toString());
+    });
+  }
+
+  /**
+   * Find the nearest enclosing scope, crossing shadow DOM boundaries
+   * @private
+   */
+  private static findParentScope(element: HTMLElement): HTMLElement | null {
+    let node: Element | null = CSSVariables.getParent(element);
+    while (node) {
+      if (CSSVariables.scopes.has(node as HTMLElement)) {
+        return node as HTMLElement;
+      }
+      node = CSSVariables.getParent(node);
+    }
+    return null;
+  }
 
-    // Only set the scale factor - CSS calc() handles the rest
-    // This is the most flexible and maintainable approach
-    root.style.setProperty(CSSVariables.CSS_VARIABLES.scaleFactor, factor.toString());
+  /**
+   * Get the parent element, stepping from a shadow root to its host
+   * @private
+   */
+  private static getParent(element: Element): Element | null {
+    if (element.parentElement) {
+      return element.parentElement;
+    }
+    const root = element.getRootNode();
+    return CSSVariables.isShadowRoot(root) ? root.host : null;
+  }
+
+  /**
+   * Check whether a node is a ShadowRoot
+   * @private
+   */
+  private static isShadowRoot(node: unknown): node is ShadowRoot {
+    return typeof ShadowRoot !== 'undefined' && node instanceof ShadowRoot;
   }
 
   /**
    * Inject CSS variables into document
+   * A ShadowRoot target also gets a copy inside the shadow tree, where document styles don't reach
    */
   injectCSS(): void {
     // SSR-safe: check if document exists
     if (typeof document === 'undefined') {
       return;
     }
-    
-    if (document.getElementById('oszoom-styles')) {
+
+    this.injectInto(document, document.head);
+    if (CSSVariables.isShadowRoot(this.target)) {
+      this.injectInto(this.target, this.target);
+    }
+  }
+
+  /**
+   * Inject the stylesheet unless it is already there, and count this instance as a user
+   * @private
+   */
+  private injectInto(styleRoot: Document | ShadowRoot, parent: Node): void {
+    const sheets = CSSVariables.styleUsers.get(styleRoot) || new Map<string, Set<CSSVariables>>();
+    const users = sheets.get(this.styleId) || new Set();
+    users.add(this);
+    sheets.set(this.styleId, users);
+    CSSVariables.styleUsers.set(styleRoot, sheets);
+
+    if (styleRoot.getElementById(this.styleId)) {
       return; // Already injected
     }
 
     const style = document.createElement('style');
-    style.id = 'oszoom-styles';
-    style.textContent = `
-      * {
-        margin: 0;
-        padding: 0;
-        box-sizing: border-box;
-      }
-      :root {
-        /* Scaling variable - adjust this to change overall size */
-        ${CSSVariables.CSS_VARIABLES.scaleFactor}: 1;
-        
-        /* Base font size (scales based on factor) */
-        ${CSSVariables.CSS_VARIABLES.baseFontSize}: calc(16px * var(${CSSVariables.CSS_VARIABLES.scaleFactor}));
-        ${CSSVariables.CSS_VARIABLES.headingSize}: calc(32px * var(${CSSVariables.CSS_VARIABLES.scaleFactor}));
-        ${CSSVariables.CSS_VARIABLES.spacingUnit}: calc(20px * var(${CSSVariables.CSS_VARIABLES.scaleFactor}));
-      }
-      html {
-        font-size: var(${CSSVariables.CSS_VARIABLES.baseFontSize});
-      }
-      h1 {
-        font-size: var(${CSSVariables.CSS_VARIABLES.headingSize});
-        margin-bottom: var(${CSSVariables.CSS_VARIABLES.spacingUnit});
-      }
-      h2, h3, h4, h5, h6 {
-        margin-bottom: calc(var(${CSSVariables.CSS_VARIABLES.spacingUnit}) * 0.75);
-      }
-      p {
-        font-size: var(${CSSVariables.CSS_VARIABLES.baseFontSize});
-        line-height: 1.6;
-        margin-bottom: calc(var(${CSSVariables.CSS_VARIABLES.spacingUnit}) * 0.5);
-      }
-    `;
+    style.id = this.styleId;
+    style.textContent = this.css;
 
-    document.head.appendChild(style);
+    parent.appendChild(style);
   }
 
   /**
    * Remove injected CSS
+   * The stylesheet is shared by instances with the same tokens: it stays until the last of them removes it
    */
   removeCSS(): void {
     // SSR-safe: check if document exists
     if (typeof document === 'undefined') {
       return;
     }
-    
-    const style = document.getElementById('oszoom-styles');
-    if (style) {
-      style.remove();
+
+    this.removeFrom(document);
+    if (CSSVariables.isShadowRoot(this.target)) {
+      this.removeFrom(this.target);
     }
   }
 
+  /**
+   * Stop using the stylesheet of a document or shadow root, removing it after the last user
+   * @private
+   */
+  private removeFrom(styleRoot: Document | ShadowRoot): void {
+    const sheets = CSSVariables.styleUsers.get(styleRoot);
+    const users = sheets?.get(this.styleId);
+    if (!sheets || !users || !users.delete(this)) {
+      return; // Never injected by this instance
+    }
+    if (users.size) {
+      return;
+    }
+
+    sheets.delete(this.styleId);
+    if (!sheets.size) {
+      CSSVariables.styleUsers.delete(styleRoot);
+    }
+    styleRoot.getElementById(this.styleId)?.remove();
+  }
+
   /**
    * Get current CSS variable value
    * @param {string} variableName - CSS variable name
-   * @returns {string} - Variable value
+   * @returns {string} - Variable value (as computed on the target element)
    */
   getVariable(variableName: string): string {
     // SSR-safe: check if document exists
@@ -108,7 +418,7 @@ export class CSSVariables {
       return '';
     }
     
-    return getComputedStyle(document.documentElement).getPropertyValue(variableName).trim();
+    const root = this.getRootElement() || document.documentElement;
+    return getComputedStyle(root).getPropertyValue(variableName).trim();
   }
 }
-
@@ -0,0 +1,20 @@
+import { EasingFunction, EasingName } from '../types';
+
+/**
+ * Built-in easing functions
+ */
+export const easings: { [name in EasingName]: EasingFunction } = {
+  linear: (t) => t,
+  'ease-in': (t) => t * t * t,
+  'ease-out': (t) => 1 - Math.pow(1 - t, 3),
+  'ease-in-out': (t) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2)
+};
+
+/**
+ * Resolve an easing name or function
+ * @param {EasingName | EasingFunction} [easing] - Easing name or function (default: 'ease-in-out')
+ * @returns {EasingFunction}
+ */
+export function getEasing(easing: EasingName | EasingFunction = 'ease-in-out'): EasingFunction {
+  return typeof easing === 'function' ? easing : easings[easing] || easings['ease-in-out'];
+}
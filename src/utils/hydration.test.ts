@@ -0,0 +1,129 @@
+/**
+ * @jest-environment jsdom
+ */
+import { followDetection, getInitialDetection, readBootstrapResult, BOOTSTRAP_GLOBAL } from './hydration';
+import { OSDetector } from '../core/OSDetector';
+import { ZoomManager } from '../core/ZoomManager';
+import { ConfigManager } from '../core/ConfigManager';
+import { OSDetectionResult, ZoomControllerConfig } from '../types';
+
+const windows: OSDetectionResult = { os: 'windows', isMobile: false, deviceClass: 'desktop' };
+const windows11: OSDetectionResult = { ...windows, version: '11', signals: [OSDetector.HIGH_ENTROPY_SIGNAL] };
+const config: ZoomControllerConfig = {
+  clientHints: true,
+  windows: { enabled: true, zoomLevel: 0.9, versions: { '11': 0.8 } }
+};
+
+// Lets the Client Hints promise settle
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('getInitialDetection', () => {
+  afterEach(() => {
+    delete (window as any)[BOOTSTRAP_GLOBAL];
+  });
+
+  it('prefers config.initialDetection, then the bootstrap result, then detection', () => {
+    (window as any)[BOOTSTRAP_GLOBAL] = { detection: { os: 'macos', isMobile: false }, zoom: 1, isActive: false };
+    expect(getInitialDetection({ initialDetection: windows })).toBe(windows);
+    expect(getInitialDetection({}).os).toBe('macos');
+    expect(readBootstrapResult()?.zoom).toBe(1);
+
+    delete (window as any)[BOOTSTRAP_GLOBAL];
+    expect(getInitialDetection({})).toBe(OSDetector.detect());
+  });
+});
+
+describe('followDetection', () => {
+  let detectAsync: jest.SpyInstance;
+  let manager: ZoomManager;
+
+  function start(userConfig: ZoomControllerConfig, initial: OSDetectionResult = windows) {
+    const merged = ConfigManager.mergeConfig(userConfig);
+    manager = new ZoomManager(merged);
+    manager.apply(initial);
+    const onDetection = jest.fn();
+    const stop = followDetection(manager, merged, onDetection);
+    return { onDetection, stop };
+  }
+
+  beforeEach(() => {
+    detectAsync = jest.spyOn(OSDetector, 'detectAsync').mockResolvedValue(windows11);
+  });
+
+  afterEach(() => {
+    manager.destroy();
+    detectAsync.mockRestore();
+  });
+
+  it('reports and applies the Client Hints result', async () => {
+    const { onDetection } = start(config);
+    expect(manager.getState().currentZoom).toBe(0.9);
+
+    await flush();
+    expect(onDetection).toHaveBeenCalledWith(windows11);
+    expect(manager.getState().currentZoom).toBe(0.8);
+  });
+
+  it('does not refine without clientHints', async () => {
+    start({ ...config, clientHints: false });
+    await flush();
+    expect(detectAsync).not.toHaveBeenCalled();
+  });
+
+  it('skips the refinement when the server result has high-entropy hints', async () => {
+    const { onDetection } = start({ ...config, initialDetection: windows11 }, windows11);
+    await flush();
+    expect(detectAsync).not.toHaveBeenCalled();
+    expect(onDetection).not.toHaveBeenCalled();
+  });
+
+  it('refines a server result that lacks high-entropy hints', async () => {
+    const { onDetection } = start({ ...config, initialDetection: windows });
+    await flush();
+    expect(onDetection).toHaveBeenCalledWith(windows11);
+  });
+
+  it('does not re-apply after reset() while the hints were pending', async () => {
+    start(config);
+    manager.reset();
+
+    await flush();
+    expect(manager.getState()).toMatchObject({ isActive: false, currentZoom: 1 });
+  });
+
+  it('applies when the real version enables zoom that was disabled', async () => {
+    start({ clientHints: true, rules: [{ when: { os: 'windows', osVersion: '11' }, zoomLevel: 0.8 }] });
+    expect(manager.getState().isActive).toBe(false);
+
+    await flush();
+    expect(manager.getState()).toMatchObject({ isActive: true, currentZoom: 0.8 });
+  });
+
+  it('drops a pending result after stop()', async () => {
+    const { onDetection, stop } = start(config);
+    stop();
+
+    await flush();
+    expect(onDetection).not.toHaveBeenCalled();
+    expect(manager.getState().currentZoom).toBe(0.9);
+  });
+
+  it('logs a throwing callback instead of rejecting', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const merged = ConfigManager.mergeConfig(config);
+    manager = new ZoomManager(merged);
+    followDetection(manager, merged, () => {
+      throw new Error('listener failed');
+    });
+
+    await flush();
+    expect(error).toHaveBeenCalledWith(expect.stringContaining('[OSZoom]'), expect.any(Error));
+    error.mockRestore();
+  });
+
+  it('forwards detectionchange events', () => {
+    const { onDetection } = start({});
+    (manager as any).emit('detectionchange', { type: 'detectionchange', previous: windows, next: windows11 });
+    expect(onDetection).toHaveBeenCalledWith(windows11);
+  });
+});
@@ -0,0 +1,113 @@
+import { DetectionOptions, OSDetectionResult, ServerZoomResult, ZoomControllerConfig } from '../types';
+import { OSDetector } from '../core/OSDetector';
+import { ZoomManager } from '../core/ZoomManager';
+
+/**
+ * Name of the global the server bootstrap script stores its result in
+ */
+export const BOOTSTRAP_GLOBAL = '__OSZOOM__';
+
+/**
+ * Id of the <style> the server bootstrap snippet renders
+ */
+export const BOOTSTRAP_STYLE_ID = 'oszoom-bootstrap';
+
+/**
+ * Read the result embedded by the server bootstrap snippet
+ * @returns {ServerZoomResult | undefined} - Server result, if the page has one
+ */
+export function readBootstrapResult(): ServerZoomResult | undefined {
+  // SSR-safe: check if window exists
+  if (typeof window === 'undefined') {
+    return undefined;
+  }
+
+  return (window as any)[BOOTSTRAP_GLOBAL];
+}
+
+/**
+ * Remove the server-rendered zoom style
+ * It only bridges the time until the client zooms: once the client applies, resets or
+ * disables zoom, a leftover style would bring the server zoom back wherever inline styles are cleared
+ */
+export function removeBootstrapStyle(): void {
+  // SSR-safe: check if document exists
+  if (typeof document === 'undefined') {
+    return;
+  }
+
+  document.getElementById(BOOTSTRAP_STYLE_ID)?.remove();
+}
+
+/**
+ * Get the server-side detection result, from the config or the bootstrap snippet
+ * @param {ZoomControllerConfig} [config] - Configuration object
+ * @returns {OSDetectionResult | undefined}
+ */
+export function getServerDetection(config?: ZoomControllerConfig): OSDetectionResult | undefined {
+  return config?.initialDetection || readBootstrapResult()?.detection;
+}
+
+/**
+ * Get the detection result adapters should start from
+ * Prefers the server result (config or bootstrap snippet) so the client does not re-detect
+ * @param {ZoomControllerConfig} [config] - Configuration object
+ * @returns {OSDetectionResult}
+ */
+export function getInitialDetection(config?: ZoomControllerConfig): OSDetectionResult {
+  return getServerDetection(config) || OSDetector.detect(getDetectionOptions(config));
+}
+
+/**
+ * Get the OSDetector options for a config
+ * @param {ZoomControllerConfig} [config] - Configuration object
+ * @returns {DetectionOptions}
+ */
+export function getDetectionOptions(config?: ZoomControllerConfig): DetectionOptions {
+  return { fallback: config?.detectionFallback };
+}
+
+/**
+ * Keep an adapter's detection result current after the initial one
+ * Reports re-detection in watch mode and, with `clientHints`, the refined result. The refinement is
+ * skipped when the server already detected with high-entropy hints, and it is only re-applied
+ * while zoom is active - or has not been touched yet, as the real version can enable it.
+ * @param {ZoomManager} manager - The adapter's manager
+ * @param {ZoomControllerConfig} config - Merged configuration
+ * @param {Function} onDetection - Called with every new detection result
+ * @returns {Function} - Stops reporting; a pending Client Hints result is dropped
+ */
+export function followDetection(
+  manager: ZoomManager,
+  config: ZoomControllerConfig,
+  onDetection: (detection: OSDetectionResult) => void
+): () => void {
+  let following = true;
+  // Zoom changed since the refinement started (e.g. reset() while it was pending)
+  let changed = false;
+  const offDetection = manager.on('detectionchange', (event) => onDetection(event.next));
+  const offChange = manager.on('change', () => {
+    changed = true;
+  });
+
+  // Refine with Client Hints (real OS version, model) and re-apply
+  const serverDetection = getServerDetection(config);
+  const needsRefinement = !serverDetection || !serverDetection.signals?.includes(OSDetector.HIGH_ENTROPY_SIGNAL);
+  if (config.clientHints && needsRefinement) {
+    OSDetector.detectAsync(getDetectionOptions(config))
+      .then((refinedInfo) => {
+        if (!following) return;
+        onDetection(refinedInfo);
+        if (manager.getState().isActive || !changed) {
+          manager.apply(refinedInfo);
+        }
+      })
+      .catch((error) => console.error('[OSZoom] Client Hints refinement failed:', error));
+  }
+
+  return () => {
+    following = false;
+    offDetection();
+    offChange();
+  };
+}
@@ -0,0 +1,90 @@
+import { ZoomStorage, ZoomStorageType } from '../types';
+
+/**
+ * MemoryStorage - In-memory storage (lost on reload)
+ * Also used as the fallback when browser storage is unavailable
+ */
+export class MemoryStorage implements ZoomStorage {
+  private items: Map<string, string> = new Map();
+
+  getItem(key: string): string | null {
+    return this.items.has(key) ? this.items.get(key)! : null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+}
+
+/**
+ * CookieStorage - Stores values in first-party cookies
+ */
+export class CookieStorage implements ZoomStorage {
+  private static readonly MAX_AGE = 60 * 60 * 24 * 365; // 1 year
+
+  getItem(key: string): string | null {
+    // SSR-safe: check if document exists
+    if (typeof document === 'undefined') {
+      return null;
+    }
+
+    const name = `${encodeURIComponent(key)}=`;
+    const cookie = document.cookie.split(';')
+      .map((part) => part.trim())
+      .find((part) => part.startsWith(name));
+
+    return cookie ? decodeURIComponent(cookie.substring(name.length)) : null;
+  }
+
+  setItem(key: string, value: string): void {
+    if (typeof document === 'undefined') {
+      return;
+    }
+
+    document.cookie = `${encodeURIComponent(key)}=${encodeURIComponent(value)}; path=/; max-age=${CookieStorage.MAX_AGE}; SameSite=Lax`;
+  }
+
+  removeItem(key: string): void {
+    if (typeof document === 'undefined') {
+      return;
+    }
+
+    document.cookie = `${encodeURIComponent(key)}=; path=/; max-age=0; SameSite=Lax`;
+  }
+}
+
+/**
+ * Create a storage backend by name
+ * Falls back to in-memory storage when the backend is unavailable
+ * (SSR, disabled cookies, Safari private mode, sandboxed iframes)
+ * @param {ZoomStorageType | ZoomStorage} storage - Backend name or custom storage
+ * @returns {ZoomStorage}
+ */
+export function createStorage(storage: ZoomStorageType | ZoomStorage = 'localStorage'): ZoomStorage {
+  if (typeof storage !== 'string') {
+    return storage;
+  }
+
+  if (storage === 'memory' || typeof window === 'undefined') {
+    return new MemoryStorage();
+  }
+
+  if (storage === 'cookie') {
+    return new CookieStorage();
+  }
+
+  try {
+    const webStorage = window[storage];
+    // Accessing or writing storage throws when it is blocked
+    const probe = '__oszoom_probe__';
+    webStorage.setItem(probe, probe);
+    webStorage.removeItem(probe);
+    return webStorage;
+  } catch {
+    return new MemoryStorage();
+  }
+}
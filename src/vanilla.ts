@@ -6,12 +6,39 @@ import { ConfigManager } from './core/ConfigManager';
 import { OSDetector } from './core/OSDetector';
 import { ZoomManager } from './core/ZoomManager';
 import { CSSVariables } from './utils/cssVariables';
+import { OSZoomConfigError } from './core/OSZoomConfigError';
+import { readAttributeConfig } from './utils/autoInit';
 
 // Attach static properties to OSZoom class for UMD compatibility
 (OSZoom as any).ConfigManager = ConfigManager;
 (OSZoom as any).OSDetector = OSDetector;
 (OSZoom as any).ZoomManager = ZoomManager;
 (OSZoom as any).CSSVariables = CSSVariables;
+(OSZoom as any).OSZoomConfigError = OSZoomConfigError;
+
+/**
+ * Start OSZoom from data attributes on this <script> tag or on <html>
+ * Runs while the script is being evaluated, so zoom is applied before first paint.
+ * The instance becomes window.OSZoom.instance.
+ */
+function autoInit(): void {
+  if (typeof document === 'undefined') {
+    return;
+  }
+
+  const config = readAttributeConfig(document.currentScript);
+  if (!config) {
+    return;
+  }
+
+  try {
+    new OSZoom(config);
+  } catch (error) {
+    console.error('[OSZoom] Auto-initialisation failed:', error);
+  }
+}
+
+autoInit();
 
 // Default export only (for UMD with exports: 'default')
 // Other exports are available as static properties on OSZoom